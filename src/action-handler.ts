@@ -0,0 +1,150 @@
+/**
+ * Tap, hold and double-tap gestures for Rémi Card
+ * Lit directive firing an `action` event, to be handled with `handleAction` from custom-card-helpers
+ */
+
+import { noChange } from 'lit';
+import { Directive, DirectiveParameters, ElementPart, directive } from 'lit/directive.js';
+
+/**
+ * Gestures an element should recognize
+ */
+export interface ActionHandlerOptions {
+  hasTap?: boolean;
+  hasHold?: boolean;
+  hasDoubleClick?: boolean;
+}
+
+/**
+ * Detail of the `action` event
+ */
+export interface ActionHandlerDetail {
+  action: 'tap' | 'hold' | 'double_tap';
+}
+
+/**
+ * Element with gesture listeners attached
+ */
+interface ActionHandlerElement extends HTMLElement {
+  actionHandlerOptions?: ActionHandlerOptions;
+}
+
+/**
+ * Press duration that turns a tap into a hold, in milliseconds
+ */
+const HOLD_TIME = 500;
+
+/**
+ * Maximum delay between the two taps of a double tap, in milliseconds
+ */
+const DOUBLE_TAP_TIME = 250;
+
+/**
+ * Pointer presses already handled by an element with actions
+ * Enclosing elements with their own actions, which receive the same press as it bubbles, ignore them
+ */
+const claimedPresses = new WeakSet<Event>();
+
+/**
+ * Dispatch the recognized gesture
+ * @param element - The element the gesture happened on
+ * @param action - The gesture
+ */
+function fireAction(element: HTMLElement, action: ActionHandlerDetail['action']): void {
+  element.dispatchEvent(new CustomEvent<ActionHandlerDetail>('action', { detail: { action } }));
+}
+
+/**
+ * Attach gesture listeners to an element, once
+ * Later calls only update the recognized gestures and the `actionable` attribute
+ * @param element - The element to listen on
+ * @param options - The gestures to recognize
+ */
+function bindActionHandler(element: ActionHandlerElement, options: ActionHandlerOptions): void {
+  const bound = element.actionHandlerOptions !== undefined;
+  element.actionHandlerOptions = options;
+  // Lets styles show a pointer on elements that react to gestures
+  element.toggleAttribute('actionable', !!(options.hasTap || options.hasHold || options.hasDoubleClick));
+  if (bound) return;
+
+  let holdTimer: number | undefined;
+  let tapTimer: number | undefined;
+  let held = false;
+
+  const cancelHold = (): void => {
+    window.clearTimeout(holdTimer);
+    holdTimer = undefined;
+  };
+
+  element.addEventListener('pointerdown', (ev) => {
+    held = false;
+    const current = element.actionHandlerOptions || {};
+    if (!current.hasTap && !current.hasHold && !current.hasDoubleClick) return;
+    if (claimedPresses.has(ev)) return;
+
+    claimedPresses.add(ev);
+    if (!current.hasHold) return;
+    holdTimer = window.setTimeout(() => {
+      held = true;
+      fireAction(element, 'hold');
+    }, HOLD_TIME);
+  });
+  element.addEventListener('pointerup', cancelHold);
+  element.addEventListener('pointerleave', cancelHold);
+  element.addEventListener('pointercancel', cancelHold);
+
+  element.addEventListener('contextmenu', (ev) => {
+    if (element.actionHandlerOptions?.hasHold) ev.preventDefault();
+  });
+
+  element.addEventListener('click', (ev) => {
+    const current = element.actionHandlerOptions || {};
+    if (!current.hasTap && !current.hasHold && !current.hasDoubleClick) return;
+
+    // Keep enclosing elements with their own actions from handling the click
+    ev.stopPropagation();
+    if (held) {
+      held = false;
+      return;
+    }
+
+    if (!current.hasDoubleClick) {
+      fireAction(element, 'tap');
+    } else if (tapTimer !== undefined) {
+      window.clearTimeout(tapTimer);
+      tapTimer = undefined;
+      fireAction(element, 'double_tap');
+    } else {
+      tapTimer = window.setTimeout(() => {
+        tapTimer = undefined;
+        fireAction(element, 'tap');
+      }, DOUBLE_TAP_TIME);
+    }
+  });
+}
+
+/**
+ * Directive recognizing gestures on the element it is bound to
+ */
+class ActionHandlerDirective extends Directive {
+  /**
+   * Bind the listeners and update the recognized gestures
+   * @param part - The element part the directive is bound to
+   * @param options - The gestures to recognize
+   * @returns noChange, the directive renders nothing
+   */
+  public update(part: ElementPart, [options]: DirectiveParameters<this>): unknown {
+    bindActionHandler(part.element as ActionHandlerElement, options);
+    return noChange;
+  }
+
+  /**
+   * Required by Directive; gestures are handled in update()
+   * @param _options - The gestures to recognize
+   */
+  public render(_options: ActionHandlerOptions): void {
+    // Nothing to render
+  }
+}
+
+export const actionHandler = directive(ActionHandlerDirective);
@@ -0,0 +1,377 @@
+/**
+ * Card configuration for Rémi Card
+ * Shared by the card and its editor: option types, runtime validation, normalization and migration of older configs
+ */
+
+import { ActionConfig } from 'custom-card-helpers';
+import { ENTITY_SLOTS, RemiEntityConfig } from './entities';
+import { FaceConfig } from './face-images';
+import { TemperatureUnit, toTemperatureUnit } from './format';
+import { TimelinePeriod } from './sleep-timeline';
+
+/**
+ * Current configuration format; configurations without `config_version` are version 1
+ */
+export const CONFIG_VERSION = 1;
+
+/**
+ * Protection of face and light changes against accidental taps
+ */
+export type LockMode = 'none' | 'confirm' | 'hold';
+
+/**
+ * Card elements accepting tap, hold and double-tap actions
+ */
+export type ActionTarget = 'header' | 'face_icon' | 'temperature' | 'connectivity';
+
+/**
+ * Parts of the card that can be shown, in their default order
+ */
+export type CardSection = 'header' | 'faces' | 'light' | 'temperature' | 'timeline' | 'stats' | 'connectivity';
+
+/**
+ * Arrangement of the card: every section stacked, a single row, or two columns for wide panels
+ */
+export type CardLayout = 'full' | 'compact' | 'horizontal';
+
+/**
+ * Lovelace actions of a card element
+ */
+export interface ElementActionConfig {
+  tap_action?: ActionConfig;
+  hold_action?: ActionConfig;
+  double_tap_action?: ActionConfig;
+}
+
+/**
+ * Configuration of a single device in multi-device mode
+ */
+export interface RemiDeviceConfig {
+  device_id: string;
+  device_name?: string;
+  entities?: RemiEntityConfig;
+}
+
+/**
+ * Configuration interface for the Rémi Card
+ */
+export interface RemiCardConfig {
+  type: string;
+  config_version?: number;
+  device_id?: string;
+  device_name?: string;
+  devices?: RemiDeviceConfig[];
+  devices_layout?: 'grid' | 'tabs';
+  layout?: CardLayout;
+  sections?: CardSection[];
+  title?: string;
+  show_controls?: boolean;
+  show_face_selector?: boolean;
+  show_temperature_graph?: boolean;
+  show_sleep_timeline?: boolean;
+  show_sleep_stats?: boolean;
+  show_connectivity?: boolean;
+  hours_to_show?: number;
+  sleep_timeline_period?: TimelinePeriod;
+  sleep_stats_nights?: number;
+  temperature_min?: number;
+  temperature_max?: number;
+  temperature_warning_delay?: number;
+  temperature_unit?: TemperatureUnit;
+  sunrise_duration?: number;
+  sunrise_brightness?: number;
+  sunrise_awake_face?: boolean;
+  lock?: LockMode;
+  lock_faces?: string[];
+  read_only?: boolean;
+  allowed_users?: string[];
+  actions?: Partial<Record<ActionTarget, ElementActionConfig>>;
+  faces?: (string | FaceConfig)[];
+  entities?: RemiEntityConfig;
+  entity_pattern?: string;
+}
+
+/**
+ * Expected type and accepted values of an option
+ */
+interface OptionRule {
+  type: 'string' | 'number' | 'boolean' | 'list' | 'map';
+  values?: readonly (string | number)[];
+  min?: number;
+  max?: number;
+  normalize?: (value: unknown) => unknown;
+}
+
+/**
+ * All card sections, in their default order
+ */
+export const CARD_SECTIONS: CardSection[] = [
+  'header',
+  'faces',
+  'light',
+  'temperature',
+  'timeline',
+  'stats',
+  'connectivity',
+];
+
+/**
+ * Card elements accepting actions
+ */
+export const ACTION_TARGETS: ActionTarget[] = ['header', 'face_icon', 'temperature', 'connectivity'];
+
+/**
+ * Rules of every card option
+ */
+const OPTION_RULES: Record<keyof RemiCardConfig, OptionRule> = {
+  type: { type: 'string' },
+  config_version: { type: 'number', values: Array.from({ length: CONFIG_VERSION }, (_, index) => index + 1) },
+  device_id: { type: 'string' },
+  device_name: { type: 'string' },
+  devices: { type: 'list' },
+  devices_layout: { type: 'string', values: ['grid', 'tabs'] },
+  layout: { type: 'string', values: ['full', 'compact', 'horizontal'] },
+  sections: { type: 'list' },
+  title: { type: 'string' },
+  show_controls: { type: 'boolean' },
+  show_face_selector: { type: 'boolean' },
+  show_temperature_graph: { type: 'boolean' },
+  show_sleep_timeline: { type: 'boolean' },
+  show_sleep_stats: { type: 'boolean' },
+  show_connectivity: { type: 'boolean' },
+  hours_to_show: { type: 'number', min: 1, max: 168 },
+  sleep_timeline_period: { type: 'string', values: ['night', 'hours'] },
+  sleep_stats_nights: { type: 'number', values: [7, 14] },
+  temperature_min: { type: 'number' },
+  temperature_max: { type: 'number' },
+  temperature_warning_delay: { type: 'number', min: 0 },
+  temperature_unit: {
+    type: 'string',
+    values: ['°C', '°F'],
+    normalize: (value) => toTemperatureUnit(value) ?? value,
+  },
+  sunrise_duration: { type: 'number', min: 1 },
+  sunrise_brightness: { type: 'number', min: 1, max: 100 },
+  sunrise_awake_face: { type: 'boolean' },
+  lock: { type: 'string', values: ['none', 'confirm', 'hold'] },
+  lock_faces: { type: 'list' },
+  read_only: { type: 'boolean' },
+  allowed_users: { type: 'list' },
+  actions: { type: 'map' },
+  faces: { type: 'list' },
+  entities: { type: 'map' },
+  entity_pattern: { type: 'string' },
+};
+
+/**
+ * Rules of the options of each entry in `devices`
+ */
+const DEVICE_RULES: Record<keyof RemiDeviceConfig, OptionRule> = {
+  device_id: { type: 'string' },
+  device_name: { type: 'string' },
+  entities: { type: 'map' },
+};
+
+/**
+ * Options added by Lovelace to every card, or read by card-mod, accepted without checks
+ */
+const LOVELACE_OPTIONS = ['view_layout', 'layout_options', 'grid_options', 'visibility', 'card_mod'];
+
+/**
+ * Options renamed by each configuration version, mapped to their new name
+ * When an option is renamed, bump CONFIG_VERSION and list the rename under the new version
+ */
+const RENAMED_OPTIONS: Record<number, Record<string, keyof RemiCardConfig>> = {};
+
+/**
+ * Raw configuration as written by the user or the editor
+ */
+type RawConfig = Record<string, unknown>;
+
+/**
+ * Describe a value for an error message
+ * @param value - The value
+ * @returns The value as YAML would show it
+ */
+function describe(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+}
+
+/**
+ * Convert a value to its expected type when it is written differently (e.g., "24" for a number)
+ * @param rule - The option rule
+ * @param value - The raw value
+ * @returns The normalized value, or the raw value if it cannot be converted
+ */
+function normalizeValue(rule: OptionRule, value: unknown): unknown {
+  if (rule.normalize) return rule.normalize(value);
+  if (rule.type === 'number' && typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Check a value against its rule
+ * @param path - The option name, for the error message (e.g., "devices[1].device_id")
+ * @param rule - The option rule
+ * @param value - The normalized value
+ * @throws Error describing the expected value
+ */
+function checkValue(path: string, rule: OptionRule, value: unknown): void {
+  const valid =
+    rule.type === 'list'
+      ? Array.isArray(value)
+      : rule.type === 'map'
+        ? typeof value === 'object' && value !== null && !Array.isArray(value)
+        : typeof value === rule.type && !(rule.type === 'number' && isNaN(value as number));
+  if (!valid) {
+    throw new Error(`${path} must be a ${rule.type}, got ${describe(value)}`);
+  }
+
+  if (rule.values && !rule.values.includes(value as string | number)) {
+    throw new Error(`${path} must be one of ${rule.values.join(', ')}, got ${describe(value)}`);
+  }
+  if (rule.min !== undefined && (value as number) < rule.min) {
+    throw new Error(`${path} must be at least ${rule.min}, got ${describe(value)}`);
+  }
+  if (rule.max !== undefined && (value as number) > rule.max) {
+    throw new Error(`${path} must be at most ${rule.max}, got ${describe(value)}`);
+  }
+}
+
+/**
+ * Normalize and check the options of a configuration object
+ * @param config - The raw options
+ * @param rules - The rules of the accepted options
+ * @param prefix - Path of the object, for error messages
+ * @returns The normalized options
+ * @throws Error on an unknown option or an invalid value
+ */
+function checkOptions(config: RawConfig, rules: Record<string, OptionRule>, prefix = ''): RawConfig {
+  const result: RawConfig = {};
+  for (const [key, raw] of Object.entries(config)) {
+    const rule = rules[key];
+    if (!rule) {
+      if (!prefix && LOVELACE_OPTIONS.includes(key)) {
+        result[key] = raw;
+        continue;
+      }
+      throw new Error(`Unknown option ${prefix}${key}`);
+    }
+    if (raw === undefined || raw === null) continue;
+
+    const value = normalizeValue(rule, raw);
+    checkValue(`${prefix}${key}`, rule, value);
+    result[key] = value;
+  }
+  return result;
+}
+
+/**
+ * Check entity overrides
+ * @param entities - The `entities` map
+ * @param prefix - Path of the map, for error messages
+ * @throws Error on an unknown slot or a non-string entity ID
+ */
+function checkEntities(entities: RawConfig, prefix: string): void {
+  const keys: string[] = ENTITY_SLOTS.map((slot) => slot.configKey);
+  for (const [key, value] of Object.entries(entities)) {
+    if (!keys.includes(key)) {
+      throw new Error(`Unknown entity ${prefix}entities.${key}, expected one of ${keys.join(', ')}`);
+    }
+    if (typeof value !== 'string') {
+      throw new Error(`${prefix}entities.${key} must be an entity ID, got ${describe(value)}`);
+    }
+  }
+}
+
+/**
+ * Rename options from older configuration versions and stamp the current version
+ * @param config - The raw configuration
+ * @returns The configuration in the current format
+ * @throws Error on an unknown version (e.g., from a newer card) or an old option set along with its new name
+ */
+export function migrateConfig(config: RawConfig): RawConfig {
+  const result: RawConfig = { ...config };
+  let version = 1;
+  if (config.config_version !== undefined && config.config_version !== null) {
+    const rule = OPTION_RULES.config_version;
+    version = normalizeValue(rule, config.config_version) as number;
+    checkValue('config_version', rule, version);
+  }
+
+  for (let next = version + 1; next <= CONFIG_VERSION; next++) {
+    for (const [oldName, newName] of Object.entries(RENAMED_OPTIONS[next] ?? {})) {
+      if (!(oldName in result)) continue;
+      if (newName in result) {
+        throw new Error(`${oldName} was renamed to ${newName}, remove one of them`);
+      }
+      result[newName] = result[oldName];
+      delete result[oldName];
+    }
+  }
+
+  result.config_version = CONFIG_VERSION;
+  return result;
+}
+
+/**
+ * Migrate, normalize and check a card configuration
+ * @param raw - The configuration as written by the user or the editor
+ * @param options - Set `requireDevice` to false to accept a configuration still being written in the editor
+ * @returns The valid configuration
+ * @throws Error describing the first problem found, shown by Lovelace as an error card
+ */
+export function validateConfig(raw: unknown, options: { requireDevice?: boolean } = {}): RemiCardConfig {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('Invalid configuration');
+  }
+
+  const config = checkOptions(migrateConfig(raw as RawConfig), OPTION_RULES) as unknown as RemiCardConfig;
+
+  if (config.devices !== undefined) {
+    if (!config.devices.length) {
+      throw new Error('devices must be a non-empty list');
+    }
+    config.devices = config.devices.map((device, index) => {
+      const prefix = `devices[${index}].`;
+      if (typeof device !== 'object' || device === null || Array.isArray(device)) {
+        throw new Error(`${prefix.slice(0, -1)} must be a map with a device_id`);
+      }
+      const checked = checkOptions(device as unknown as RawConfig, DEVICE_RULES, prefix) as unknown as RemiDeviceConfig;
+      if (!checked.device_id) {
+        throw new Error(`Each entry in devices must specify a device_id (missing in ${prefix.slice(0, -1)})`);
+      }
+      if (checked.entities) checkEntities(checked.entities as RawConfig, prefix);
+      return checked;
+    });
+  } else if (!config.device_id && options.requireDevice !== false) {
+    throw new Error('You must specify a device_id');
+  }
+
+  if (config.entities) checkEntities(config.entities as RawConfig, '');
+  if (config.lock_faces?.some((face) => typeof face !== 'string')) {
+    throw new Error('lock_faces must be a list of faces');
+  }
+  if (config.allowed_users?.some((user) => typeof user !== 'string')) {
+    throw new Error('allowed_users must be a list of user IDs');
+  }
+  if (config.faces?.some((entry) => typeof entry !== 'string' && typeof entry?.face !== 'string')) {
+    throw new Error('faces must be a list of face names or of objects with a face key');
+  }
+  for (const section of config.sections || []) {
+    if (!CARD_SECTIONS.includes(section)) {
+      throw new Error(`Unknown section ${describe(section)}, expected one of ${CARD_SECTIONS.join(', ')}`);
+    }
+  }
+  if (config.sections && new Set(config.sections).size !== config.sections.length) {
+    throw new Error('sections must not list a section twice');
+  }
+  for (const target of Object.keys(config.actions || {})) {
+    if (!ACTION_TARGETS.includes(target as ActionTarget)) {
+      throw new Error(`Unknown action target actions.${target}, expected one of ${ACTION_TARGETS.join(', ')}`);
+    }
+  }
+  return config;
+}
@@ -0,0 +1,483 @@
+/**
+ * Entity discovery for Rémi Card
+ * Resolves the entities of a Rémi device from the Home Assistant device and entity registries
+ */
+
+import { HomeAssistant } from 'custom-card-helpers';
+
+/**
+ * Entity identifiers for Rémi device sensors and controls
+ */
+export interface RemiEntity {
+  face: string | null;
+  faceSelect: string | null;
+  light: string | null;
+  temperature: string | null;
+  connectivity: string | null;
+  rssi: string | null;
+}
+
+/**
+ * Per-slot entity overrides, as written in the card configuration
+ */
+export interface RemiEntityConfig {
+  face?: string;
+  face_select?: string;
+  light?: string;
+  temperature?: string;
+  connectivity?: string;
+  rssi?: string;
+}
+
+/**
+ * A Rémi device with its resolved entities
+ */
+export interface RemiDevice {
+  id: string;
+  name: string | null;
+  entities: RemiEntity;
+}
+
+/**
+ * Device registry entry as returned by `config/device_registry/list`
+ */
+interface DeviceRegistryEntry {
+  id: string;
+  name: string | null;
+  name_by_user: string | null;
+  manufacturer: string | null;
+}
+
+/**
+ * Entity registry entry as returned by `config/entity_registry/list`
+ */
+interface EntityRegistryEntry {
+  entity_id: string;
+  device_id: string | null;
+  translation_key: string | null;
+  disabled_by: string | null;
+}
+
+/**
+ * Device and entity registries, fetched together
+ */
+interface Registries {
+  devices: DeviceRegistryEntry[];
+  entities: EntityRegistryEntry[];
+}
+
+/**
+ * Description of an entity slot: its config key, naming and matching rules
+ */
+export interface EntitySlot {
+  slot: keyof RemiEntity;
+  configKey: keyof RemiEntityConfig;
+  domain: string;
+  name: string;
+  translationKeys: string[];
+  deviceClass?: string;
+}
+
+/**
+ * All Rémi entity slots
+ */
+export const ENTITY_SLOTS: EntitySlot[] = [
+  { slot: 'face', configKey: 'face', domain: 'sensor', name: 'face', translationKeys: ['face'] },
+  { slot: 'faceSelect', configKey: 'face_select', domain: 'select', name: 'face', translationKeys: ['face'] },
+  { slot: 'light', configKey: 'light', domain: 'light', name: 'night_light', translationKeys: ['night_light'] },
+  {
+    slot: 'temperature',
+    configKey: 'temperature',
+    domain: 'sensor',
+    name: 'temperature',
+    translationKeys: ['temperature'],
+    deviceClass: 'temperature',
+  },
+  {
+    slot: 'connectivity',
+    configKey: 'connectivity',
+    domain: 'binary_sensor',
+    name: 'connectivity',
+    translationKeys: ['connectivity'],
+    deviceClass: 'connectivity',
+  },
+  {
+    slot: 'rssi',
+    configKey: 'rssi',
+    domain: 'sensor',
+    name: 'rssi',
+    translationKeys: ['rssi', 'signal_strength'],
+    deviceClass: 'signal_strength',
+  },
+];
+
+/**
+ * Default entity ID template of the Rémi integration
+ * Placeholders: `{domain}`, `{device_id}` and `{name}` (the slot name, e.g., "night_light")
+ */
+export const DEFAULT_ENTITY_PATTERN = '{domain}.remi_{device_id}_{name}';
+
+/**
+ * Registries cached per websocket connection, dropped when Home Assistant reports a registry change
+ */
+const registryCache = new WeakMap<object, Promise<Registries>>();
+
+/**
+ * Events fired by Home Assistant when a device or entity is added, renamed or removed
+ */
+const REGISTRY_EVENTS = ['device_registry_updated', 'entity_registry_updated'];
+
+/**
+ * Delay grouping a burst of registry events (e.g., a new integration adding many entities), in milliseconds
+ */
+const REGISTRY_UPDATE_DELAY = 1000;
+
+/**
+ * Connections whose registry events are already subscribed to
+ */
+const watchedConnections = new WeakSet<object>();
+
+/**
+ * Callbacks run after the registries changed
+ */
+const registryListeners = new Set<() => void>();
+
+/**
+ * Pending notification of the registry listeners
+ */
+let registryUpdateTimer: number | undefined;
+
+/**
+ * Register a callback run after a device or entity registry change, once the cache has been dropped
+ * @param callback - Called after each change, or burst of changes
+ * @returns Function removing the callback
+ */
+export function onRegistriesUpdated(callback: () => void): () => void {
+  registryListeners.add(callback);
+  return () => registryListeners.delete(callback);
+}
+
+/**
+ * Drop the cached registries of a connection whenever Home Assistant reports a registry change
+ * The subscription lasts as long as the connection, like the cache it invalidates
+ * @param hass - The Home Assistant instance
+ */
+function watchRegistries(hass: HomeAssistant): void {
+  const connection = hass.connection;
+  if (watchedConnections.has(connection)) return;
+  watchedConnections.add(connection);
+
+  const handleUpdate = (): void => {
+    registryCache.delete(connection);
+    window.clearTimeout(registryUpdateTimer);
+    registryUpdateTimer = window.setTimeout(
+      () => registryListeners.forEach((callback) => callback()),
+      REGISTRY_UPDATE_DELAY
+    );
+  };
+  for (const eventType of REGISTRY_EVENTS) {
+    connection.subscribeEvents(handleUpdate, eventType).catch(() => {
+      // Subscribing needs an admin user; the registries cannot be fetched either then
+    });
+  }
+}
+
+/**
+ * Fetch the device and entity registries, reusing a previous fetch on the same connection
+ * @param hass - The Home Assistant instance
+ * @returns Promise resolving to both registries
+ */
+function fetchRegistries(hass: HomeAssistant): Promise<Registries> {
+  watchRegistries(hass);
+  let registries = registryCache.get(hass.connection);
+  if (!registries) {
+    registries = Promise.all([
+      hass.callWS<DeviceRegistryEntry[]>({ type: 'config/device_registry/list' }),
+      hass.callWS<EntityRegistryEntry[]>({ type: 'config/entity_registry/list' }),
+    ]).then(([devices, entities]) => ({ devices, entities }));
+
+    // Allow a later retry if the fetch fails
+    registries.catch(() => registryCache.delete(hass.connection));
+    registryCache.set(hass.connection, registries);
+  }
+  return registries;
+}
+
+/**
+ * Build entity IDs from a naming template
+ * @param deviceId - The device ID suffix (e.g., "garance")
+ * @param pattern - Entity ID template, defaults to the integration's naming convention
+ * @returns Entity identifiers for all slots
+ */
+export function getNamingConventionEntities(deviceId: string, pattern = DEFAULT_ENTITY_PATTERN): RemiEntity {
+  return Object.fromEntries(
+    ENTITY_SLOTS.map((slot) => [
+      slot.slot,
+      pattern
+        .replace(/\{domain\}/g, slot.domain)
+        .replace(/\{device_id\}/g, deviceId)
+        .replace(/\{name\}/g, slot.name),
+    ])
+  ) as unknown as RemiEntity;
+}
+
+/**
+ * Replace resolved entities with the ones configured explicitly
+ * @param entities - The resolved entity identifiers
+ * @param overrides - Per-slot overrides from the card configuration
+ * @returns Entity identifiers with the overrides applied
+ */
+export function applyEntityOverrides(entities: RemiEntity, overrides?: RemiEntityConfig): RemiEntity {
+  if (!overrides) return entities;
+
+  const result = { ...entities };
+  for (const slot of ENTITY_SLOTS) {
+    const override = overrides[slot.configKey];
+    if (override) {
+      result[slot.slot] = override;
+    }
+  }
+  return result;
+}
+
+/**
+ * Pick the entity filling a slot among a device's entities
+ * Prefers a translation key match, then a device class match, then the only entity of the domain
+ * @param hass - The Home Assistant instance
+ * @param entries - Entity registry entries of the device
+ * @param matcher - Matching rules for the slot
+ * @returns The matching entity ID or null if none matches
+ */
+function matchSlot(hass: HomeAssistant, entries: EntityRegistryEntry[], matcher: EntitySlot): string | null {
+  const candidates = entries.filter((entry) => entry.entity_id.split('.')[0] === matcher.domain);
+
+  const byKey = candidates.find(
+    (entry) => entry.translation_key && matcher.translationKeys.includes(entry.translation_key)
+  );
+  if (byKey) return byKey.entity_id;
+
+  if (matcher.deviceClass) {
+    const byClass = candidates.find(
+      (entry) => hass.states[entry.entity_id]?.attributes.device_class === matcher.deviceClass
+    );
+    if (byClass) return byClass.entity_id;
+  }
+
+  return candidates.length === 1 ? candidates[0].entity_id : null;
+}
+
+/**
+ * Resolve a Rémi device and its entities from the registries
+ * @param hass - The Home Assistant instance
+ * @param deviceId - A device registry ID
+ * @returns Promise resolving to the device, or null if the ID is not in the device registry
+ */
+export async function resolveDeviceEntities(hass: HomeAssistant, deviceId: string): Promise<RemiDevice | null> {
+  const registries = await fetchRegistries(hass);
+  const device = registries.devices.find((entry) => entry.id === deviceId);
+  if (!device) return null;
+
+  const entries = registries.entities.filter((entry) => entry.device_id === deviceId && !entry.disabled_by);
+  const entities = Object.fromEntries(
+    ENTITY_SLOTS.map((slot) => [slot.slot, matchSlot(hass, entries, slot)])
+  ) as unknown as RemiEntity;
+
+  return {
+    id: device.id,
+    name: device.name_by_user || device.name,
+    entities,
+  };
+}
+
+/**
+ * Manufacturer of Rémi devices, as reported in the device registry
+ */
+const MANUFACTURER_PATTERN = /urban\s*hello/i;
+
+/**
+ * Face sensors following the integration's naming convention; the first group is the device ID suffix
+ */
+const FACE_SENSOR_PATTERN = /^sensor\.remi_(.+)_face$/;
+
+/**
+ * Check whether a registry device is a Rémi
+ * @param device - The device registry entry
+ * @param entries - Entity registry entries of the device
+ * @returns True if the device is made by UrbanHello or has a face sensor or selector
+ */
+function isRemiDevice(device: DeviceRegistryEntry, entries: EntityRegistryEntry[]): boolean {
+  if (device.manufacturer && MANUFACTURER_PATTERN.test(device.manufacturer)) return true;
+  return entries.some(
+    (entry) => entry.translation_key === 'face' && ['sensor', 'select'].includes(entry.entity_id.split('.')[0])
+  );
+}
+
+/**
+ * Find the Rémi devices of the installation
+ * Registry devices come first; face sensors following the naming convention and not attached to one of them
+ * are added as device ID suffixes, so installations without registry access still get suggestions
+ * @param hass - The Home Assistant instance
+ * @returns Promise resolving to the devices with their entities
+ */
+export async function detectRemiDevices(hass: HomeAssistant): Promise<RemiDevice[]> {
+  const registries = await fetchRegistries(hass).catch(() => null);
+  const devices: RemiDevice[] = [];
+  const claimed = new Set<string>();
+
+  for (const device of registries?.devices || []) {
+    const entries = registries?.entities.filter((entry) => entry.device_id === device.id && !entry.disabled_by) || [];
+    if (!isRemiDevice(device, entries)) continue;
+
+    entries.forEach((entry) => claimed.add(entry.entity_id));
+    devices.push({
+      id: device.id,
+      name: device.name_by_user || device.name,
+      entities: Object.fromEntries(
+        ENTITY_SLOTS.map((slot) => [slot.slot, matchSlot(hass, entries, slot)])
+      ) as unknown as RemiEntity,
+    });
+  }
+
+  for (const entityId of Object.keys(hass.states).sort()) {
+    const match = FACE_SENSOR_PATTERN.exec(entityId);
+    if (!match || claimed.has(entityId)) continue;
+
+    devices.push({
+      id: match[1],
+      name: null,
+      entities: getNamingConventionEntities(match[1]),
+    });
+  }
+
+  return devices;
+}
+
+/**
+ * Health of a resolved entity
+ */
+export type EntityStatus = 'ok' | 'unavailable' | 'missing';
+
+/**
+ * Health check of one entity slot, with replacements for a missing entity
+ */
+export interface EntityDiagnostic {
+  slot: EntitySlot;
+  entityId: string | null;
+  status: EntityStatus;
+  suggestions: string[];
+}
+
+/**
+ * Slots the card cannot work without
+ */
+export const CORE_SLOTS: (keyof RemiEntity)[] = ['face', 'light'];
+
+/**
+ * Maximum number of replacements suggested for a missing entity
+ */
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Suggestions already computed, kept until an entity is added or removed
+ * State changes replace `hass.states` on every update, so the entity ID list is compared instead
+ */
+let suggestionCache: { states: HomeAssistant['states']; entityIds: string; results: Map<string, string[]> } | null =
+  null;
+
+/**
+ * Get the suggestions computed for the current entities
+ * @param hass - The Home Assistant instance
+ * @returns Suggestions keyed by slot and expected entity ID
+ */
+function getSuggestionCache(hass: HomeAssistant): Map<string, string[]> {
+  if (suggestionCache?.states === hass.states) return suggestionCache.results;
+
+  const entityIds = Object.keys(hass.states).join(',');
+  if (suggestionCache?.entityIds === entityIds) {
+    suggestionCache.states = hass.states;
+  } else {
+    suggestionCache = { states: hass.states, entityIds, results: new Map() };
+  }
+  return suggestionCache.results;
+}
+
+/**
+ * Count the single-character edits turning one string into another
+ * @param a - First string
+ * @param b - Second string
+ * @returns The Levenshtein distance
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Find existing entities that could fill a slot, closest to the expected entity ID first
+ * Candidates share the slot's domain and either its name suffix (e.g., `_night_light`) or its device class
+ * @param hass - The Home Assistant instance
+ * @param slot - The slot to fill
+ * @param entityId - The entity ID that was expected
+ * @returns Up to three entity IDs
+ */
+export function findSimilarEntities(hass: HomeAssistant, slot: EntitySlot, entityId: string | null): string[] {
+  const cache = getSuggestionCache(hass);
+  const key = `${slot.slot}:${entityId ?? ''}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const candidates = Object.keys(hass.states).filter((candidate) => {
+    if (candidate === entityId || candidate.split('.')[0] !== slot.domain) return false;
+    return (
+      candidate.endsWith(`_${slot.name}`) ||
+      (slot.deviceClass !== undefined && hass.states[candidate].attributes.device_class === slot.deviceClass)
+    );
+  });
+
+  const distances = new Map(
+    candidates.map((candidate) => [candidate, entityId ? editDistance(entityId, candidate) : 0])
+  );
+  const suggestions = candidates
+    .sort((a, b) => (distances.get(a) as number) - (distances.get(b) as number) || a.localeCompare(b))
+    .slice(0, MAX_SUGGESTIONS);
+  cache.set(key, suggestions);
+  return suggestions;
+}
+
+/**
+ * Check the health of an entity, without looking for replacements
+ * @param hass - The Home Assistant instance
+ * @param entityId - The entity to check
+ * @returns Whether the entity works, is unavailable, or does not exist
+ */
+export function getEntityStatus(hass: HomeAssistant, entityId: string | null): EntityStatus {
+  const stateObj = entityId ? hass.states[entityId] : undefined;
+  return !stateObj ? 'missing' : stateObj.state === 'unavailable' ? 'unavailable' : 'ok';
+}
+
+/**
+ * Check whether each entity of a device exists and is available
+ * @param hass - The Home Assistant instance
+ * @param entities - The resolved entity identifiers
+ * @returns One diagnostic per slot, in slot order
+ */
+export function diagnoseEntities(hass: HomeAssistant, entities: RemiEntity): EntityDiagnostic[] {
+  return ENTITY_SLOTS.map((slot) => {
+    const entityId = entities[slot.slot];
+    const status = getEntityStatus(hass, entityId);
+    return {
+      slot,
+      entityId,
+      status,
+      suggestions: status === 'missing' ? findSimilarEntities(hass, slot, entityId) : [],
+    };
+  });
+}
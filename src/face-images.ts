@@ -8,6 +8,7 @@ import awakeFace from './face/face_awake.png';
 import semiAwakeFace from './face/face_semi_awake.png';
 import smilyFace from './face/face_smily.png';
 import blankFace from './face/face_blank.png';
+import { localizeFace } from './localize';
 
 /**
  * Available face states
@@ -22,6 +23,20 @@ export const FACE_STATES = [
 
 export type FaceState = typeof FACE_STATES[number];
 
+/**
+ * Display settings of a face, from the card's `faces` option
+ */
+export interface FaceConfig {
+  face: string;
+  label?: string;
+  image?: string;
+}
+
+/**
+ * Icon shown for faces without a bundled or configured image
+ */
+export const UNKNOWN_FACE_ICON = 'mdi:emoticon-outline';
+
 /**
  * Mapping of face state names to their imported image assets
  */
@@ -33,6 +48,17 @@ export const FACE_ICONS: Record<string, string> = {
   blankFace,
 };
 
+/**
+ * Colors representing each face state in timelines and charts
+ */
+export const FACE_COLORS: Record<string, string> = {
+  sleepyFace: '#3f51b5',
+  semiAwakeFace: '#ff9800',
+  awakeFace: '#4caf50',
+  smilyFace: '#e91e63',
+  blankFace: '#9e9e9e',
+};
+
 /**
  * Get the icon URL for a given face state
  * @param faceState - The face state identifier (e.g., 'sleepyFace', 'awakeFace')
@@ -46,3 +72,42 @@ export function getFaceIcon(faceState: string): string {
   // Return blank face as fallback
   return FACE_ICONS.blankFace;
 }
+
+/**
+ * Get the chart color for a given face state
+ * @param faceState - The face state identifier (e.g., 'sleepyFace', 'awakeFace')
+ * @returns The color of the face state, defaults to the blank face color if state not found
+ */
+export function getFaceColor(faceState: string): string {
+  return FACE_COLORS[faceState] || FACE_COLORS.blankFace;
+}
+
+/**
+ * Normalize the `faces` option, where each entry is a face name or a face with overrides
+ * @param entries - The configured faces
+ * @returns The faces with their overrides, in configured order
+ */
+export function normalizeFaces(entries: (string | FaceConfig)[] | undefined): FaceConfig[] {
+  return (entries || []).map((entry) => (typeof entry === 'string' ? { face: entry } : entry));
+}
+
+/**
+ * Get the image of a face, preferring the configured override
+ * @param face - The face state identifier
+ * @param faces - The configured faces
+ * @returns The image URL, or undefined if the face has no image
+ */
+export function getFaceImage(face: string, faces: FaceConfig[] = []): string | undefined {
+  return faces.find((config) => config.face === face)?.image || FACE_ICONS[face];
+}
+
+/**
+ * Get the label of a face, preferring the configured override
+ * @param face - The face state identifier
+ * @param language - User's language code
+ * @param faces - The configured faces
+ * @returns The label to display
+ */
+export function getFaceLabel(face: string, language: string, faces: FaceConfig[] = []): string {
+  return faces.find((config) => config.face === face)?.label || localizeFace(face, language);
+}
@@ -0,0 +1,171 @@
+/**
+ * Value formatting for Rémi Card
+ * Formats sensor values with their unit, display precision and the user's number format
+ */
+
+import { HomeAssistant, formatNumber } from 'custom-card-helpers';
+
+/**
+ * Temperature units the card can display
+ */
+export type TemperatureUnit = '°C' | '°F';
+
+/**
+ * Display settings from the entity registry, as exposed on `hass.entities`
+ */
+interface EntityDisplaySettings {
+  display_precision?: number;
+}
+
+/**
+ * Precision used for temperatures when the entity does not define one
+ */
+const DEFAULT_TEMPERATURE_PRECISION = 1;
+
+/**
+ * Get the display precision configured for an entity
+ * @param hass - The Home Assistant instance
+ * @param entityId - The entity ID
+ * @returns The number of decimals, or undefined if the entity does not define one
+ */
+export function getDisplayPrecision(hass: HomeAssistant, entityId: string | null): number | undefined {
+  if (!entityId) return undefined;
+  const entities = (hass as HomeAssistant & { entities?: Record<string, EntityDisplaySettings> }).entities;
+  return entities?.[entityId]?.display_precision;
+}
+
+/**
+ * Format a number with the user's locale and an optional fixed precision
+ * @param hass - The Home Assistant instance
+ * @param value - The value to format
+ * @param precision - Number of decimals, or undefined to keep the value's own decimals
+ * @returns The formatted number
+ */
+export function formatValue(hass: HomeAssistant, value: number, precision?: number): string {
+  const options: Intl.NumberFormatOptions =
+    precision === undefined ? {} : { minimumFractionDigits: precision, maximumFractionDigits: precision };
+  return formatNumber(value, hass.locale, options);
+}
+
+/**
+ * Format a percentage with the user's locale (e.g., "50%" or "50 %")
+ * @param hass - The Home Assistant instance
+ * @param percent - The percentage (0-100)
+ * @returns The formatted percentage
+ */
+export function formatPercent(hass: HomeAssistant, percent: number): string {
+  return formatNumber(percent / 100, hass.locale, { style: 'percent', maximumFractionDigits: 0 });
+}
+
+/**
+ * Normalize a unit string to a temperature unit
+ * @param unit - A unit such as "°C", "°F", "C" or "F"
+ * @returns The temperature unit, or undefined if the unit is not a temperature unit
+ */
+export function toTemperatureUnit(unit: unknown): TemperatureUnit | undefined {
+  if (typeof unit !== 'string') return undefined;
+  const normalized = unit.replace('°', '').trim().toUpperCase();
+  if (normalized === 'C') return '°C';
+  if (normalized === 'F') return '°F';
+  return undefined;
+}
+
+/**
+ * Convert a temperature between Celsius and Fahrenheit
+ * @param value - The temperature to convert
+ * @param from - The unit of the value
+ * @param to - The unit to convert to
+ * @returns The converted temperature
+ */
+export function convertTemperature(value: number, from: TemperatureUnit, to: TemperatureUnit): number {
+  if (from === to) return value;
+  return to === '°F' ? (value * 9) / 5 + 32 : ((value - 32) * 5) / 9;
+}
+
+/**
+ * Get the unit a temperature sensor reports in
+ * Falls back to the Home Assistant unit system, then to Celsius
+ * @param hass - The Home Assistant instance
+ * @param entityId - The temperature sensor
+ * @returns The sensor's temperature unit
+ */
+export function getSensorTemperatureUnit(hass: HomeAssistant, entityId: string | null): TemperatureUnit {
+  const stateObj = entityId ? hass.states[entityId] : undefined;
+  return (
+    toTemperatureUnit(stateObj?.attributes.unit_of_measurement) ||
+    toTemperatureUnit(hass.config?.unit_system?.temperature) ||
+    '°C'
+  );
+}
+
+/**
+ * Get the precision used to display a temperature sensor
+ * @param hass - The Home Assistant instance
+ * @param entityId - The temperature sensor
+ * @returns The number of decimals
+ */
+export function getTemperaturePrecision(hass: HomeAssistant, entityId: string | null): number {
+  return getDisplayPrecision(hass, entityId) ?? DEFAULT_TEMPERATURE_PRECISION;
+}
+
+/**
+ * Format a temperature with its unit
+ * @param hass - The Home Assistant instance
+ * @param value - The temperature, already in the display unit
+ * @param unit - The display unit
+ * @param precision - Number of decimals
+ * @returns The formatted temperature (e.g., "21,5 °C")
+ */
+export function formatTemperature(
+  hass: HomeAssistant,
+  value: number,
+  unit: TemperatureUnit,
+  precision = DEFAULT_TEMPERATURE_PRECISION
+): string {
+  return `${formatValue(hass, value, precision)} ${unit}`;
+}
+
+/**
+ * Format a numeric sensor state with its unit and display precision
+ * @param hass - The Home Assistant instance
+ * @param entityId - The sensor
+ * @param fallbackUnit - Unit used when the sensor does not define one
+ * @returns The formatted state, or the raw state if it is not numeric
+ */
+export function formatSensorState(hass: HomeAssistant, entityId: string, fallbackUnit = ''): string {
+  const stateObj = hass.states[entityId];
+  if (!stateObj) return '';
+
+  const value = parseFloat(stateObj.state);
+  if (isNaN(value)) return stateObj.state;
+
+  const unit = (stateObj.attributes.unit_of_measurement as string | undefined) || fallbackUnit;
+  const formatted = formatValue(hass, value, getDisplayPrecision(hass, entityId));
+  return unit ? `${formatted} ${unit}` : formatted;
+}
+
+/**
+ * Relative time units, from the largest, with their length in seconds
+ */
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['day', 86400],
+  ['hour', 3600],
+  ['minute', 60],
+  ['second', 1],
+];
+
+/**
+ * Format a past or future time relative to now, in the user's language (e.g., "5 minutes ago")
+ * @param hass - The Home Assistant instance
+ * @param time - Timestamp in milliseconds
+ * @param now - Reference timestamp in milliseconds
+ * @returns The relative time
+ */
+export function formatRelativeTime(hass: HomeAssistant, time: number, now = Date.now()): string {
+  const seconds = Math.round((time - now) / 1000);
+  const [unit, length] =
+    RELATIVE_TIME_UNITS.find(([, unitLength]) => Math.abs(seconds) >= unitLength) ||
+    RELATIVE_TIME_UNITS[RELATIVE_TIME_UNITS.length - 1];
+  const language = hass.locale?.language || hass.language || 'en';
+  return new Intl.RelativeTimeFormat(language, { numeric: 'auto' }).format(Math.round(seconds / length), unit);
+}
@@ -0,0 +1,157 @@
+/**
+ * Base element for the Rémi Card's history visualizations
+ * Keeps a history stream subscription in sync with the element's entity and time window
+ */
+
+import { LitElement, PropertyValues } from 'lit';
+import { property, state } from 'lit/decorators.js';
+import { HomeAssistant } from 'custom-card-helpers';
+import { pruneHistory, subscribeHistory, HistoryState } from './history';
+
+/**
+ * Interval between renders moving the "now" edge forward when no new state arrives, in milliseconds
+ */
+const NOW_REFRESH_INTERVAL = 60 * 1000;
+
+/**
+ * Element rendering the recent history of a single entity
+ */
+export abstract class HistoryElement extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property({ attribute: false }) public entityId: string | null = null;
+  @property({ type: Number }) public hours = 24;
+  @state() protected _history: HistoryState[] | null = null;
+
+  private _unsubscribe?: Promise<() => Promise<void>>;
+
+  /**
+   * Entity and window of the current subscription
+   */
+  private _subscribedKey?: string;
+
+  /**
+   * Timer re-rendering the element as time passes
+   */
+  private _clock?: number;
+
+  /**
+   * Lifecycle method called when the element is added to the DOM
+   * Restores the history subscription after a reconnect and starts the clock
+   */
+  public connectedCallback(): void {
+    super.connectedCallback();
+    this._clock = window.setInterval(() => this._handleClock(), NOW_REFRESH_INTERVAL);
+    if (this.hass && this.entityId) {
+      this._subscribe();
+    }
+  }
+
+  /**
+   * Lifecycle method called when the element is removed from the DOM
+   * Ends the history subscription and stops the clock
+   */
+  public disconnectedCallback(): void {
+    super.disconnectedCallback();
+    window.clearInterval(this._clock);
+    this._clock = undefined;
+    this._unsubscribeHistory();
+  }
+
+  /**
+   * Drop states that left the window and re-render so the last state stretches up to the current time
+   */
+  private _handleClock(): void {
+    if (this._history) {
+      this._history = pruneHistory(this._history, this._getWindowHours());
+    }
+    this.requestUpdate();
+  }
+
+  /**
+   * Skip renders triggered only by unrelated hass updates
+   * The clock re-renders the element every minute instead, as it requests an update without changed properties
+   * @param changedProps - Map of changed properties
+   * @returns True if the element should re-render
+   */
+  protected shouldUpdate(changedProps: PropertyValues): boolean {
+    if (changedProps.size === 1 && changedProps.has('hass')) {
+      const oldHass = changedProps.get('hass') as HomeAssistant | undefined;
+      return !oldHass || oldHass.locale !== this.hass.locale;
+    }
+    return true;
+  }
+
+  /**
+   * Lifecycle method called after the element updates
+   * Subscribes once hass is available, and resubscribes when the entity or the time window changes
+   * @param changedProps - Map of changed properties
+   */
+  protected updated(changedProps: PropertyValues): void {
+    super.updated(changedProps);
+    if (!this.hass || !this.entityId) return;
+
+    // The subscription made on connect already covers the first render
+    if (!this._unsubscribe || this._subscribedKey !== this._getSubscriptionKey()) {
+      this._subscribe();
+    }
+  }
+
+  /**
+   * Describe the entity and time window the history is subscribed for
+   * @returns A key that changes whenever the subscription must be renewed
+   */
+  protected _getSubscriptionKey(): string {
+    return `${this.entityId}|${this.hours}`;
+  }
+
+  /**
+   * Get the number of hours of history to subscribe to
+   * @returns The size of the history window in hours
+   */
+  protected _getWindowHours(): number {
+    return this.hours;
+  }
+
+  /**
+   * Start following the entity's history, replacing any previous subscription
+   */
+  private _subscribe(): void {
+    this._unsubscribeHistory();
+    this._history = null;
+    this._subscribedKey = this._getSubscriptionKey();
+
+    const subscription = subscribeHistory(
+      this.hass,
+      this.entityId as string,
+      () => this._getWindowHours(),
+      (history) => {
+        // A late message from a replaced subscription must not overwrite the new history
+        if (this._unsubscribe !== subscription) return;
+        this._history = history;
+      }
+    );
+    this._unsubscribe = subscription;
+    subscription.catch(() => {
+      if (this._unsubscribe !== subscription) return;
+      this._history = [];
+    });
+  }
+
+  /**
+   * End the current history subscription, if any
+   */
+  private _unsubscribeHistory(): void {
+    if (!this._unsubscribe) return;
+    const pending = this._unsubscribe;
+    this._unsubscribe = undefined;
+    pending.then((unsubscribe) => unsubscribe()).catch(() => undefined);
+  }
+
+  /**
+   * Get the user's language from Home Assistant
+   * @returns The language code (e.g., "en", "fr")
+   */
+  protected _getLanguage(): string {
+    return this.hass?.locale?.language || this.hass?.language || 'en';
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * History helpers for Rémi Card
+ * Wraps the Home Assistant history websocket API used by the card's graphs
+ */
+
+import { HomeAssistant } from 'custom-card-helpers';
+
+/**
+ * Compressed state as sent by the `history/stream` subscription
+ */
+interface CompressedState {
+  s: string;
+  lu: number;
+  lc?: number;
+  a?: Record<string, unknown>;
+}
+
+/**
+ * Message pushed by the `history/stream` subscription
+ */
+interface HistoryStreamMessage {
+  states: Record<string, CompressedState[]>;
+  start_time?: number;
+  end_time?: number;
+}
+
+/**
+ * A single state change in an entity's history
+ */
+export interface HistoryState {
+  state: string;
+  time: number;
+}
+
+/**
+ * Callback receiving the full history window each time it changes
+ */
+export type HistoryCallback = (history: HistoryState[]) => void;
+
+/**
+ * Convert compressed states to history states
+ * @param states - Compressed states from the history API
+ * @returns The history states
+ */
+function toHistoryStates(states: CompressedState[] = []): HistoryState[] {
+  return states.map((change) => ({
+    state: change.s,
+    time: (change.lc ?? change.lu) * 1000,
+  }));
+}
+
+/**
+ * Drop the states older than a window
+ * The last state before the window is kept so graphs start at their left edge
+ * @param history - History states, sorted by time
+ * @param hours - Size of the window in hours
+ * @returns The states within the window
+ */
+export function pruneHistory(history: HistoryState[], hours: number): HistoryState[] {
+  const cutoff = Date.now() - hours * 60 * 60 * 1000;
+  return history.filter((entry, index) => {
+    const next = history[index + 1];
+    return entry.time >= cutoff || next === undefined || next.time > cutoff;
+  });
+}
+
+/**
+ * Subscribe to the history of a single entity
+ * The callback receives the initial history, then the updated window each time a new state arrives
+ * States older than the window are pruned on every update; the window size is read again each time, so a window
+ * growing with time (e.g., since the start of the night) keeps its earliest states
+ * @param hass - The Home Assistant instance
+ * @param entityId - The entity to follow
+ * @param getHours - Returns the size of the history window in hours
+ * @param callback - Called with the history states, sorted by time
+ * @returns Promise resolving to a function that ends the subscription
+ */
+export async function subscribeHistory(
+  hass: HomeAssistant,
+  entityId: string,
+  getHours: () => number,
+  callback: HistoryCallback
+): Promise<() => Promise<void>> {
+  const windowMs = getHours() * 60 * 60 * 1000;
+  let history: HistoryState[] = [];
+
+  return hass.connection.subscribeMessage<HistoryStreamMessage>(
+    (message) => {
+      const added = toHistoryStates(message.states[entityId]);
+      history = pruneHistory([...history, ...added].sort((a, b) => a.time - b.time), getHours());
+      callback(history);
+    },
+    {
+      type: 'history/stream',
+      entity_ids: [entityId],
+      start_time: new Date(Date.now() - windowMs).toISOString(),
+      minimal_response: true,
+      no_attributes: true,
+      significant_changes_only: false,
+    }
+  );
+}
+
+/**
+ * Fetch the history of several entities over a fixed period
+ * @param hass - The Home Assistant instance
+ * @param entityIds - The entities to fetch
+ * @param start - Start of the period, as a timestamp in milliseconds
+ * @param end - End of the period, as a timestamp in milliseconds
+ * @returns Promise resolving to the history states of each entity, sorted by time
+ */
+export async function fetchHistory(
+  hass: HomeAssistant,
+  entityIds: string[],
+  start: number,
+  end: number
+): Promise<Record<string, HistoryState[]>> {
+  const result = await hass.callWS<Record<string, CompressedState[]>>({
+    type: 'history/history_during_period',
+    entity_ids: entityIds,
+    start_time: new Date(start).toISOString(),
+    end_time: new Date(end).toISOString(),
+    minimal_response: true,
+    no_attributes: true,
+    significant_changes_only: false,
+  });
+
+  return Object.fromEntries(entityIds.map((entityId) => [entityId, toHistoryStates(result[entityId])]));
+}
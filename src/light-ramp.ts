@@ -0,0 +1,541 @@
+/**
+ * Night light brightness ramps for Rémi Card
+ * Gradually changes a light's brightness over time and keeps running ramps across page reloads
+ */
+
+import { ReactiveController, ReactiveControllerHost } from 'lit';
+import { HomeAssistant } from 'custom-card-helpers';
+
+/**
+ * Kind of ramp: a sleep timer fading out, or a wake-up sunrise
+ */
+export type RampKind = 'fade' | 'sunrise';
+
+/**
+ * A brightness ramp running, or scheduled, on a light
+ */
+export interface LightRamp {
+  entityId: string;
+  kind: RampKind;
+  start: number;
+  end: number;
+  from: number;
+  to: number;
+  transition: boolean;
+  started: boolean;
+  wakeFace?: boolean;
+  owner?: string;
+  lease?: number;
+}
+
+/**
+ * A brightness step sent by a stepped ramp
+ * The previous brightness is accepted until the light confirms the step, as the device reports with a delay
+ */
+interface RampStep {
+  brightness: number;
+  previous: number;
+  time: number;
+  confirmed: boolean;
+}
+
+/**
+ * Host element providing the Home Assistant instance
+ */
+type RampHost = ReactiveControllerHost & { hass?: HomeAssistant };
+
+/**
+ * Callback invoked when a ramp reaches its end
+ */
+type RampCompleteCallback = (ramp: LightRamp) => void;
+
+/**
+ * Callback invoked once when a service call of a ramp fails
+ */
+type RampFailureCallback = (ramp: LightRamp, error: unknown) => void;
+
+/**
+ * localStorage key holding the running ramps
+ */
+const STORAGE_KEY = 'remi-card.light-ramps';
+
+/**
+ * Minimum delay between two brightness steps, to avoid flooding the device
+ */
+const MIN_STEP_INTERVAL = 15 * 1000;
+
+/**
+ * How long a card instance keeps driving a ramp without renewing its claim
+ * Other instances, in this tab or another one, take the ramp over once the lease expires
+ */
+const LEASE_DURATION = 5 * 1000;
+
+/**
+ * Brightness difference, in percent, still considered equal to a step (device brightness is 0-255)
+ */
+const BRIGHTNESS_TOLERANCE = 2;
+
+/**
+ * Light feature flag for transition support
+ */
+const SUPPORT_TRANSITION = 32;
+
+/**
+ * Read the persisted ramps
+ * @returns The ramps keyed by entity ID
+ */
+function loadRamps(): Record<string, LightRamp> {
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Persist the running ramps
+ * @param ramps - The ramps keyed by entity ID
+ */
+function saveRamps(ramps: Record<string, LightRamp>): void {
+  try {
+    if (Object.keys(ramps).length) {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(ramps));
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Storage unavailable (e.g., private browsing), ramps only last for this page
+  }
+}
+
+/**
+ * Check whether a light supports native transitions
+ * @param hass - The Home Assistant instance
+ * @param entityId - The light entity
+ * @returns True if the light supports the transition parameter
+ */
+export function supportsTransition(hass: HomeAssistant, entityId: string): boolean {
+  const features = Number(hass.states[entityId]?.attributes.supported_features) || 0;
+  return (features & SUPPORT_TRANSITION) !== 0;
+}
+
+/**
+ * Read a light's brightness
+ * @param hass - The Home Assistant instance
+ * @param entityId - The light entity
+ * @returns Brightness percentage, 0 when off, or null when the state is unknown
+ */
+function readBrightness(hass: HomeAssistant, entityId: string): number | null {
+  const stateObj = hass.states[entityId];
+  if (stateObj?.state === 'off') return 0;
+  if (stateObj?.state !== 'on') return null;
+  return Math.round(((Number(stateObj.attributes.brightness) || 0) / 255) * 100);
+}
+
+/**
+ * Reactive controller running brightness ramps for its host card
+ * Ramps are stored in localStorage so they resume after a page reload
+ * Each ramp is driven by a single card instance holding its lease, so steps are not sent once per open tab
+ */
+export class LightRampController implements ReactiveController {
+  private _host: RampHost;
+  private _getEntities: () => (string | null)[];
+  private _onComplete?: RampCompleteCallback;
+  private _onFailure?: RampFailureCallback;
+  private _timer?: number;
+  private _startTimer?: number;
+  private _id = Math.random().toString(36).slice(2);
+  private _lastStep = new Map<string, RampStep>();
+  private _failed = new Set<string>();
+
+  /**
+   * @param host - The card owning the controller
+   * @param getEntities - Returns the lights shown by the card; only their ramps are driven
+   * @param onComplete - Called when a ramp driven by this controller reaches its end
+   * @param onFailure - Called when a service call of a ramp fails; the ramp is stopped
+   */
+  constructor(
+    host: RampHost,
+    getEntities: () => (string | null)[],
+    onComplete?: RampCompleteCallback,
+    onFailure?: RampFailureCallback
+  ) {
+    this._host = host;
+    this._getEntities = getEntities;
+    this._onComplete = onComplete;
+    this._onFailure = onFailure;
+    host.addController(this);
+  }
+
+  /**
+   * Resume persisted ramps when the host is connected
+   */
+  public hostConnected(): void {
+    this._schedule();
+  }
+
+  /**
+   * Stop ticking when the host is disconnected
+   */
+  public hostDisconnected(): void {
+    window.clearInterval(this._timer);
+    this._timer = undefined;
+    window.clearTimeout(this._startTimer);
+    this._startTimer = undefined;
+    this._release();
+  }
+
+  /**
+   * Pick up ramps for lights the host started showing since the last check
+   */
+  public refresh(): void {
+    this._schedule();
+  }
+
+  /**
+   * Get the ramp running on a light
+   * @param entityId - The light entity
+   * @returns The ramp, or undefined if none is running
+   */
+  public get(entityId: string | null): LightRamp | undefined {
+    return entityId ? loadRamps()[entityId] : undefined;
+  }
+
+  /**
+   * Get the remaining time of a ramp
+   * For a scheduled ramp, this includes the time before it starts
+   * @param ramp - The ramp
+   * @returns Remaining time in milliseconds
+   */
+  public remaining(ramp: LightRamp): number {
+    return Math.max(ramp.end - Date.now(), 0);
+  }
+
+  /**
+   * Fade a light from its current brightness down to off
+   * Uses a native transition when the light supports it, stepped brightness changes otherwise
+   * @param entityId - The light entity
+   * @param from - Current brightness percentage
+   * @param duration - Fade duration in milliseconds
+   */
+  public fadeOut(entityId: string, from: number, duration: number): void {
+    const hass = this._host.hass;
+    if (!hass) return;
+
+    const start = Date.now();
+    this._store({
+      entityId,
+      kind: 'fade',
+      start,
+      end: start + duration,
+      from,
+      to: 0,
+      transition: supportsTransition(hass, entityId),
+      started: false,
+      owner: this._id,
+      lease: start + LEASE_DURATION,
+    });
+    this._schedule();
+  }
+
+  /**
+   * Ramp a light up from 1% to a target brightness, now or at a later time
+   * @param entityId - The light entity
+   * @param to - Target brightness percentage
+   * @param duration - Ramp duration in milliseconds
+   * @param start - Start time in milliseconds, defaults to now
+   * @param wakeFace - Whether the awake face should be shown when the ramp ends
+   */
+  public sunrise(entityId: string, to: number, duration: number, start = Date.now(), wakeFace = false): void {
+    const hass = this._host.hass;
+    if (!hass) return;
+
+    this._store({
+      entityId,
+      kind: 'sunrise',
+      start,
+      end: start + duration,
+      from: 1,
+      to,
+      transition: supportsTransition(hass, entityId),
+      started: false,
+      wakeFace,
+      owner: this._id,
+      lease: Date.now() + LEASE_DURATION,
+    });
+    this._schedule();
+  }
+
+  /**
+   * Cancel the ramp running on a light
+   * The light keeps the brightness reached so far
+   * @param entityId - The light entity
+   */
+  public cancel(entityId: string): void {
+    const ramp = this.get(entityId);
+    if (!ramp) return;
+
+    this._remove(entityId);
+    const hass = this._host.hass;
+    if (ramp.transition && ramp.started && hass) {
+      // Interrupt the native transition at the current level
+      const brightness = this._brightnessAt(ramp, Date.now());
+      this._call(hass, ramp, 'turn_on', { brightness_pct: Math.max(brightness, 1) });
+    }
+    this._host.requestUpdate();
+  }
+
+  /**
+   * Forget the ramp running on a light without sending anything
+   * Used when the card sends its own command to the light, which replaces the ramp
+   * @param entityId - The light entity
+   */
+  public stop(entityId: string | null): void {
+    if (!entityId || !this.get(entityId)) return;
+
+    this._remove(entityId);
+    this._host.requestUpdate();
+  }
+
+  /**
+   * Get the persisted ramps running on the host's lights
+   * @returns The ramps
+   */
+  private _ownRamps(): LightRamp[] {
+    const entities = this._getEntities();
+    return Object.values(loadRamps()).filter((ramp) => entities.includes(ramp.entityId));
+  }
+
+  /**
+   * Start or stop the ticker depending on running ramps
+   * Ramps scheduled for later only set a timer for their start, so the card is not re-rendered every second
+   */
+  private _schedule(): void {
+    const now = Date.now();
+    const ramps = this._ownRamps();
+    const running = ramps.some((ramp) => ramp.start <= now);
+
+    window.clearTimeout(this._startTimer);
+    this._startTimer = undefined;
+    if (!running) {
+      const starts = ramps.map((ramp) => ramp.start);
+      if (starts.length) {
+        this._startTimer = window.setTimeout(() => this._schedule(), Math.min(...starts) - now);
+      }
+    }
+
+    if (running && this._timer === undefined) {
+      this._timer = window.setInterval(() => this._tick(), 1000);
+      this._tick();
+    } else if (!running && this._timer !== undefined) {
+      window.clearInterval(this._timer);
+      this._timer = undefined;
+    }
+  }
+
+  /**
+   * Advance all ramps: send brightness steps, finish elapsed ramps and refresh the countdown
+   */
+  private _tick(): void {
+    const hass = this._host.hass;
+    if (!hass) return;
+
+    const now = Date.now();
+    for (const stored of this._ownRamps()) {
+      if (now < stored.start) continue;
+
+      const ramp = this._claim(stored, now);
+      if (!ramp) continue;
+
+      const last = this._lastStep.get(ramp.entityId);
+      if (ramp.started && !ramp.transition && last && this._isOverridden(hass, ramp.entityId, last)) {
+        // The light was turned off or set to another brightness elsewhere, stop fighting it
+        this._remove(ramp.entityId);
+        continue;
+      }
+
+      if (now >= ramp.end) {
+        this._remove(ramp.entityId);
+        // A sunrise no page was open for is skipped, rather than lighting up the room hours late
+        if (ramp.kind === 'sunrise' && !ramp.started) continue;
+        if (!ramp.transition || !ramp.started) {
+          this._setBrightness(hass, ramp, ramp.to);
+        }
+        this._onComplete?.(ramp);
+        continue;
+      }
+
+      if (!ramp.started) {
+        this._begin(hass, ramp);
+        continue;
+      }
+      if (ramp.transition) continue;
+
+      const brightness = this._brightnessAt(ramp, now);
+      if (!last || (last.brightness !== brightness && now - last.time >= MIN_STEP_INTERVAL)) {
+        this._step(hass, ramp, brightness);
+      }
+    }
+
+    this._schedule();
+    this._host.requestUpdate();
+  }
+
+  /**
+   * Send the first command of a ramp once its start time is reached
+   * Lights supporting transitions receive the whole ramp as a single transition
+   * @param hass - The Home Assistant instance
+   * @param ramp - The ramp to start
+   */
+  private _begin(hass: HomeAssistant, ramp: LightRamp): void {
+    const now = Date.now();
+    const seconds = Math.round((ramp.end - now) / 1000);
+
+    if (ramp.transition && ramp.to === 0) {
+      this._call(hass, ramp, 'turn_off', { transition: seconds });
+    } else if (ramp.transition) {
+      this._call(hass, ramp, 'turn_on', { brightness_pct: ramp.to, transition: seconds });
+    } else {
+      this._step(hass, ramp, this._brightnessAt(ramp, now));
+    }
+
+    saveRamps({ ...loadRamps(), [ramp.entityId]: { ...ramp, started: true } });
+  }
+
+  /**
+   * Take or renew the lease on a ramp, unless another card instance holds a live one
+   * @param ramp - The persisted ramp
+   * @param now - Current timestamp in milliseconds
+   * @returns The ramp with this instance's lease, or null if another instance drives it
+   */
+  private _claim(ramp: LightRamp, now: number): LightRamp | null {
+    if (ramp.owner && ramp.owner !== this._id && (ramp.lease ?? 0) > now) return null;
+
+    const claimed = { ...ramp, owner: this._id, lease: now + LEASE_DURATION };
+    saveRamps({ ...loadRamps(), [ramp.entityId]: claimed });
+    return claimed;
+  }
+
+  /**
+   * Give up the leases held by this instance, so another one takes the ramps over right away
+   */
+  private _release(): void {
+    const ramps = loadRamps();
+    const owned = Object.values(ramps).filter((ramp) => ramp.owner === this._id);
+    if (!owned.length) return;
+
+    owned.forEach((ramp) => (ramps[ramp.entityId] = { ...ramp, lease: 0 }));
+    saveRamps(ramps);
+    this._lastStep.clear();
+  }
+
+  /**
+   * Send one brightness step of a stepped ramp and remember it
+   * @param hass - The Home Assistant instance
+   * @param ramp - The ramp the step belongs to
+   * @param brightness - Brightness percentage
+   */
+  private _step(hass: HomeAssistant, ramp: LightRamp, brightness: number): void {
+    const previous = readBrightness(hass, ramp.entityId) ?? brightness;
+    this._lastStep.set(ramp.entityId, { brightness, previous, time: Date.now(), confirmed: false });
+    this._setBrightness(hass, ramp, brightness);
+  }
+
+  /**
+   * Check whether a light moved away from the last step of its ramp
+   * @param hass - The Home Assistant instance
+   * @param entityId - The light entity
+   * @param step - The last step sent
+   * @returns True if the light was turned off or set to another brightness by something else
+   */
+  private _isOverridden(hass: HomeAssistant, entityId: string, step: RampStep): boolean {
+    const current = readBrightness(hass, entityId);
+    if (current === null) return false;
+    if (Math.abs(current - step.brightness) <= BRIGHTNESS_TOLERANCE) {
+      step.confirmed = true;
+      return false;
+    }
+    return step.confirmed || Math.abs(current - step.previous) > BRIGHTNESS_TOLERANCE;
+  }
+
+  /**
+   * Compute the brightness a ramp should have reached
+   * @param ramp - The ramp
+   * @param time - Timestamp in milliseconds
+   * @returns Brightness percentage
+   */
+  private _brightnessAt(ramp: LightRamp, time: number): number {
+    const progress = Math.min(Math.max((time - ramp.start) / (ramp.end - ramp.start), 0), 1);
+    return Math.round(ramp.from + (ramp.to - ramp.from) * progress);
+  }
+
+  /**
+   * Apply a brightness to a light, turning it off at 0%
+   * @param hass - The Home Assistant instance
+   * @param ramp - The ramp the brightness belongs to
+   * @param brightness - Brightness percentage
+   */
+  private _setBrightness(hass: HomeAssistant, ramp: LightRamp, brightness: number): void {
+    if (brightness <= 0) {
+      this._call(hass, ramp, 'turn_off', {});
+    } else {
+      this._call(hass, ramp, 'turn_on', { brightness_pct: brightness });
+    }
+  }
+
+  /**
+   * Call a light service for a ramp, stopping the ramp if the call fails
+   * @param hass - The Home Assistant instance
+   * @param ramp - The ramp the call belongs to
+   * @param service - The light service
+   * @param data - Service data besides the entity ID
+   */
+  private _call(
+    hass: HomeAssistant,
+    ramp: LightRamp,
+    service: 'turn_on' | 'turn_off',
+    data: Record<string, unknown>
+  ): void {
+    hass
+      .callService('light', service, { entity_id: ramp.entityId, ...data })
+      .catch((error) => this._fail(ramp, error));
+  }
+
+  /**
+   * Stop a ramp whose service call failed and report the failure
+   * Calls still in flight for the same ramp fail too, so each ramp is reported once
+   * @param ramp - The ramp that failed
+   * @param error - The error returned by the service call
+   */
+  private _fail(ramp: LightRamp, error: unknown): void {
+    const key = `${ramp.entityId}:${ramp.start}`;
+    if (this._failed.has(key)) return;
+    this._failed.add(key);
+
+    if (this.get(ramp.entityId)?.start === ramp.start) {
+      this._remove(ramp.entityId);
+    }
+    this._host.requestUpdate();
+    this._onFailure?.(ramp, error);
+  }
+
+  /**
+   * Persist a new ramp, replacing any ramp running on the same light
+   * @param ramp - The ramp to store
+   */
+  private _store(ramp: LightRamp): void {
+    this._lastStep.delete(ramp.entityId);
+    saveRamps({ ...loadRamps(), [ramp.entityId]: ramp });
+  }
+
+  /**
+   * Forget the ramp running on a light
+   * @param entityId - The light entity
+   */
+  private _remove(entityId: string): void {
+    const ramps = loadRamps();
+    delete ramps[entityId];
+    this._lastStep.delete(entityId);
+    saveRamps(ramps);
+  }
+}
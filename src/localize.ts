@@ -61,14 +61,32 @@ export function localize(key: string, language = 'en'): string {
   return key;
 }
 
+/**
+ * Turn a face state key into a readable label (e.g., "rainbowFace" -> "Rainbow")
+ * @param face - Face state key
+ * @returns Humanized label
+ */
+function humanizeFace(face: string): string {
+  const words = face
+    .replace(/Face$/, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .toLowerCase();
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : face;
+}
+
 /**
  * Get the face name in the user's language
+ * Faces without a translation, such as faces added by a firmware update, get a humanized label
  * @param face - Face state key (e.g., "sleepyFace")
  * @param language - User's language code
  * @returns Localized face name
  */
 export function localizeFace(face: string, language = 'en'): string {
-  return localize(`face.${face}`, language);
+  const key = `face.${face}`;
+  const translation = localize(key, language);
+  return translation === key ? humanizeFace(face) : translation;
 }
 
 /**
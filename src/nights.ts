@@ -0,0 +1,44 @@
+/**
+ * Night helpers for Rémi Card
+ * Defines the time window considered as a night for sleep timelines and statistics
+ */
+
+/**
+ * Hour (local time) at which a night starts
+ */
+export const NIGHT_START_HOUR = 18;
+
+/**
+ * Hour (local time) of the following day at which a night ends
+ */
+export const NIGHT_END_HOUR = 12;
+
+/**
+ * Start and end of a night, as timestamps in milliseconds
+ */
+export interface NightWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Get the time window of a recent night
+ * The current night is the one that started at the last NIGHT_START_HOUR
+ * @param nightsAgo - 0 for the current night, 1 for the one before, and so on
+ * @param now - Reference time, defaults to now
+ * @returns The night's start and end
+ */
+export function getNightWindow(nightsAgo = 0, now: Date = new Date()): NightWindow {
+  const start = new Date(now);
+  start.setHours(NIGHT_START_HOUR, 0, 0, 0);
+  if (now.getHours() < NIGHT_START_HOUR) {
+    start.setDate(start.getDate() - 1);
+  }
+  start.setDate(start.getDate() - nightsAgo);
+
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  end.setHours(NIGHT_END_HOUR, 0, 0, 0);
+
+  return { start: start.getTime(), end: end.getTime() };
+}
@@ -0,0 +1,171 @@
+/**
+ * Optimistic service calls for Rémi Card
+ * Shows requested values right away, then reconciles them with the entity state or rolls them back on failure
+ */
+
+import { ReactiveController, ReactiveControllerHost } from 'lit';
+import { HomeAssistant } from 'custom-card-helpers';
+
+/**
+ * State object of an entity, as found in `hass.states`
+ */
+type StateObject = HomeAssistant['states'][string];
+
+/**
+ * Host element providing the Home Assistant instance
+ */
+type PendingHost = ReactiveControllerHost & { hass?: HomeAssistant };
+
+/**
+ * Why a pending change was rolled back
+ */
+export type PendingFailure = 'rejected' | 'timeout';
+
+/**
+ * Callback invoked once for every rolled back change
+ */
+type FailureCallback = (entityId: string, reason: PendingFailure, error?: unknown) => void;
+
+/**
+ * A value requested from the card and not yet reflected by the entity
+ */
+interface PendingChange {
+  id: number;
+  value: string | number;
+  isApplied: (stateObj: StateObject | undefined) => boolean;
+  timer: number;
+}
+
+/**
+ * Time to wait for the entity to report the requested value before rolling back
+ */
+const PENDING_TIMEOUT = 15 * 1000;
+
+/**
+ * Reactive controller tracking optimistic values for its host card
+ */
+export class PendingChangesController implements ReactiveController {
+  private _host: PendingHost;
+  private _onFailure: FailureCallback;
+  private _pending = new Map<string, PendingChange>();
+  private _lastId = 0;
+
+  /**
+   * @param host - The card owning the controller
+   * @param onFailure - Called when a change is rolled back
+   */
+  constructor(host: PendingHost, onFailure: FailureCallback) {
+    this._host = host;
+    this._onFailure = onFailure;
+    host.addController(this);
+  }
+
+  /**
+   * Nothing to resume: pending changes do not outlive the host
+   */
+  public hostConnected(): void {
+    // Required by ReactiveController
+  }
+
+  /**
+   * Drop all pending changes when the host is disconnected
+   */
+  public hostDisconnected(): void {
+    for (const entityId of [...this._pending.keys()]) {
+      this._clear(entityId);
+    }
+  }
+
+  /**
+   * Get the value requested for an entity
+   * @param entityId - The entity
+   * @returns The pending value, or undefined if no change is pending
+   */
+  public get(entityId: string | null): string | number | undefined {
+    return entityId ? this._pending.get(entityId)?.value : undefined;
+  }
+
+  /**
+   * Check whether a change is pending for an entity
+   * @param entityId - The entity
+   * @returns True if a change is waiting for confirmation
+   */
+  public has(entityId: string | null): boolean {
+    return entityId !== null && this._pending.has(entityId);
+  }
+
+  /**
+   * Show a value right away and call the service applying it
+   * A newer change on the same entity replaces the previous one
+   * A value the entity already has is not sent, since no state change would ever confirm it
+   * @param entityId - The entity being changed
+   * @param value - The requested value
+   * @param isApplied - Returns true once the entity state reflects the value
+   * @param call - Calls the service
+   */
+  public run(
+    entityId: string,
+    value: string | number,
+    isApplied: (stateObj: StateObject | undefined) => boolean,
+    call: () => Promise<unknown>
+  ): void {
+    if (isApplied(this._host.hass?.states[entityId])) {
+      // Only a change still in flight needs overriding; nothing is left to confirm
+      const inFlight = this._pending.has(entityId);
+      this._clear(entityId);
+      this._host.requestUpdate();
+      if (inFlight) {
+        call().catch((error) => this._onFailure(entityId, 'rejected', error));
+      }
+      return;
+    }
+
+    this._clear(entityId);
+    const id = ++this._lastId;
+    const timer = window.setTimeout(() => this._fail(entityId, id, 'timeout'), PENDING_TIMEOUT);
+    this._pending.set(entityId, { id, value, isApplied, timer });
+    this._host.requestUpdate();
+
+    call().catch((error) => this._fail(entityId, id, 'rejected', error));
+  }
+
+  /**
+   * Confirm pending changes the entity states now reflect
+   * @param states - The current entity states
+   */
+  public reconcile(states: HomeAssistant['states']): void {
+    for (const [entityId, change] of this._pending) {
+      if (change.isApplied(states[entityId])) {
+        this._clear(entityId);
+      }
+    }
+  }
+
+  /**
+   * Roll a change back and report the failure
+   * Ignored if the change was already confirmed or replaced, so each failure is reported once
+   * @param entityId - The entity
+   * @param id - The change that failed
+   * @param reason - Why the change failed
+   * @param error - The error returned by the service call
+   */
+  private _fail(entityId: string, id: number, reason: PendingFailure, error?: unknown): void {
+    if (this._pending.get(entityId)?.id !== id) return;
+
+    this._clear(entityId);
+    this._host.requestUpdate();
+    this._onFailure(entityId, reason, error);
+  }
+
+  /**
+   * Forget the change pending on an entity
+   * @param entityId - The entity
+   */
+  private _clear(entityId: string): void {
+    const change = this._pending.get(entityId);
+    if (!change) return;
+
+    window.clearTimeout(change.timer);
+    this._pending.delete(entityId);
+  }
+}
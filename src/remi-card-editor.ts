@@ -1,26 +1,102 @@
 /**
  * Configuration editor for the Rémi Card
- * Provides a UI to configure the card settings in the Lovelace editor
+ * Provides a UI to configure the card settings in the Lovelace editor, built on an ha-form schema
  */
 
-import { LitElement, html, css, TemplateResult } from 'lit';
+import { LitElement, html, css, PropertyValues, TemplateResult } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import { HomeAssistant } from 'custom-card-helpers';
 import { localize } from './localize';
+import {
+  ENTITY_SLOTS,
+  DEFAULT_ENTITY_PATTERN,
+  RemiDevice,
+  RemiEntity,
+  RemiEntityConfig,
+  applyEntityOverrides,
+  detectRemiDevices,
+  diagnoseEntities,
+  getNamingConventionEntities,
+  onRegistriesUpdated,
+} from './entities';
+import { CARD_SECTIONS, RemiCardConfig, validateConfig } from './config';
 
 /**
- * Configuration interface for the Rémi Card
+ * Field or group of an ha-form schema
  */
-interface RemiCardConfig {
-  type: string;
-  device_id: string;
-  device_name?: string;
+interface HaFormSchema {
+  name: string;
+  type?: 'expandable' | 'grid';
   title?: string;
-  show_controls?: boolean;
-  show_face_selector?: boolean;
-  show_temperature_graph?: boolean;
-  show_connectivity?: boolean;
-  hours_to_show?: number;
+  icon?: string;
+  flatten?: boolean;
+  required?: boolean;
+  selector?: Record<string, unknown>;
+  schema?: HaFormSchema[];
+}
+
+/**
+ * Values shown in the form: the configuration with its defaults filled in
+ */
+type FormData = Record<string, unknown>;
+
+/**
+ * Values the card uses when an option is not set, shown in the form so switches and numbers are not blank
+ */
+const FORM_DEFAULTS: FormData = {
+  show_face_selector: true,
+  show_controls: true,
+  show_temperature_graph: true,
+  show_sleep_timeline: false,
+  show_sleep_stats: false,
+  show_connectivity: true,
+  hours_to_show: 24,
+  temperature_warning_delay: 15,
+  sunrise_duration: 15,
+  sunrise_brightness: 80,
+  sunrise_awake_face: true,
+  lock: 'none',
+  read_only: false,
+  layout: 'full',
+};
+
+/**
+ * Options shown as switches in the sections group
+ */
+const SECTION_OPTIONS = [
+  'show_face_selector',
+  'show_controls',
+  'show_temperature_graph',
+  'show_sleep_timeline',
+  'show_sleep_stats',
+  'show_connectivity',
+];
+
+/**
+ * Device registry IDs are 32 hexadecimal characters, unlike naming-convention suffixes such as "garance"
+ */
+const REGISTRY_ID_PATTERN = /^[0-9a-f]{32}$/;
+
+/**
+ * Build a number field
+ * @param name - The configuration key
+ * @param min - Smallest accepted value
+ * @param max - Largest accepted value
+ * @param options - Step, unit and display mode overrides
+ * @returns The schema of the field
+ */
+function numberField(
+  name: string,
+  min: number,
+  max: number,
+  options: { step?: number; unit?: string; mode?: 'box' | 'slider' } = {}
+): HaFormSchema {
+  return {
+    name,
+    selector: {
+      number: { min, max, step: options.step ?? 1, mode: options.mode ?? 'box', unit_of_measurement: options.unit },
+    },
+  };
 }
 
 /**
@@ -30,13 +106,81 @@ interface RemiCardConfig {
 export class RemiCardEditor extends LitElement {
   @property({ attribute: false }) public hass!: HomeAssistant;
   @state() private _config!: RemiCardConfig;
+  @state() private _detected: RemiDevice[] = [];
+
+  /**
+   * Whether the Rémi devices of the installation have been looked up
+   */
+  private _detectionStarted = false;
+
+  /**
+   * Request counter used to ignore outdated detections
+   */
+  private _detection = 0;
+
+  /**
+   * Removes the registry change listener
+   */
+  private _unsubscribeRegistries?: () => void;
+
+  /**
+   * Lifecycle method called when the element is added to the DOM
+   * Looks up the Rémi devices again when devices or entities are added, renamed or removed
+   */
+  public connectedCallback(): void {
+    super.connectedCallback();
+    this._unsubscribeRegistries = onRegistriesUpdated(() => this._detectDevices());
+  }
+
+  /**
+   * Lifecycle method called when the element is removed from the DOM
+   */
+  public disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this._unsubscribeRegistries?.();
+    this._unsubscribeRegistries = undefined;
+  }
 
   /**
    * Set the configuration for the card
+   * Older configurations are migrated, so the next change saves them in the current format
    * @param config - The card configuration object
+   * @throws Error if the configuration is invalid, so Lovelace falls back to the YAML editor
    */
   public setConfig(config: RemiCardConfig): void {
-    this._config = config;
+    this._config = validateConfig(config, { requireDevice: false });
+  }
+
+  /**
+   * Lifecycle method called after the element updates
+   * Looks up the Rémi devices once Home Assistant is available
+   * @param changedProps - Map of changed properties
+   */
+  protected updated(changedProps: PropertyValues): void {
+    super.updated(changedProps);
+    if (changedProps.has('hass') && this.hass && !this._detectionStarted) {
+      this._detectionStarted = true;
+      this._detectDevices();
+    }
+  }
+
+  /**
+   * Look up the Rémi devices of the installation
+   * The previous list is kept if the lookup fails
+   */
+  private _detectDevices(): void {
+    if (!this.hass) return;
+
+    const detection = ++this._detection;
+    detectRemiDevices(this.hass)
+      .then((devices) => {
+        if (detection === this._detection) {
+          this._detected = devices;
+        }
+      })
+      .catch(() => {
+        // Detection only fills the device dropdown, the device can still be typed
+      });
   }
 
   /**
@@ -48,34 +192,297 @@ export class RemiCardEditor extends LitElement {
   }
 
   /**
-   * Handle value changes from form inputs
-   * Dispatches a 'config-changed' event with the updated configuration
-   * @param ev - The custom event containing the changed value
+   * Build the schema of the device fields
+   * Detected Rémi devices are offered in a dropdown that still accepts a typed suffix; without detected devices,
+   * registry devices are picked from a device selector and naming-convention suffixes keep a text field
+   * @returns The ha-form schema
+   */
+  private _getDeviceSchema(): HaFormSchema[] {
+    const deviceId = this._config.device_id || '';
+    let selector: Record<string, unknown>;
+    if (this._detected.length) {
+      const options = this._detected.map((device) => ({ value: device.id, label: device.name || device.id }));
+      selector = { select: { mode: 'dropdown', custom_value: true, options } };
+    } else {
+      selector = !deviceId || REGISTRY_ID_PATTERN.test(deviceId) ? { device: {} } : { text: {} };
+    }
+
+    return [
+      { name: 'device_id', required: true, selector },
+      { name: 'device_name', selector: { text: {} } },
+    ];
+  }
+
+  /**
+   * Build the schema of the option groups
+   * @returns The ha-form schema
+   */
+  private _getOptionsSchema(): HaFormSchema[] {
+    const lang = this._getLanguage();
+
+    return [
+      {
+        name: 'sections',
+        type: 'expandable',
+        flatten: true,
+        title: localize('editor.group_sections', lang),
+        icon: 'mdi:view-agenda-outline',
+        schema: [
+          {
+            name: 'layout',
+            selector: {
+              select: {
+                mode: 'dropdown',
+                options: ['full', 'compact', 'horizontal'].map((layout) => ({
+                  value: layout,
+                  label: localize(`editor.layout_${layout}`, lang),
+                })),
+              },
+            },
+          },
+          {
+            name: '',
+            type: 'grid',
+            flatten: true,
+            schema: SECTION_OPTIONS.map((name) => ({ name, selector: { boolean: {} } })),
+          },
+          {
+            name: 'sections',
+            selector: {
+              select: {
+                multiple: true,
+                reorder: true,
+                options: CARD_SECTIONS.map((section) => ({
+                  value: section,
+                  label: localize(`editor.section_${section}`, lang),
+                })),
+              },
+            },
+          },
+        ],
+      },
+      {
+        name: 'temperature',
+        type: 'expandable',
+        flatten: true,
+        title: localize('editor.group_temperature', lang),
+        icon: 'mdi:thermometer',
+        schema: [
+          numberField('hours_to_show', 1, 168, { unit: 'h' }),
+          {
+            name: '',
+            type: 'grid',
+            flatten: true,
+            schema: [
+              numberField('temperature_min', -10, 100, { step: 0.5 }),
+              numberField('temperature_max', -10, 100, { step: 0.5 }),
+            ],
+          },
+          numberField('temperature_warning_delay', 0, 240, { unit: 'min' }),
+        ],
+      },
+      {
+        name: 'night_light',
+        type: 'expandable',
+        flatten: true,
+        title: localize('editor.group_night_light', lang),
+        icon: 'mdi:weather-sunset-up',
+        schema: [
+          numberField('sunrise_duration', 1, 120, { unit: 'min' }),
+          numberField('sunrise_brightness', 1, 100, { unit: '%', mode: 'slider' }),
+          { name: 'sunrise_awake_face', selector: { boolean: {} } },
+        ],
+      },
+      {
+        name: 'security',
+        type: 'expandable',
+        flatten: true,
+        title: localize('editor.group_security', lang),
+        icon: 'mdi:lock-outline',
+        schema: [
+          {
+            name: 'lock',
+            selector: {
+              select: {
+                mode: 'dropdown',
+                options: ['none', 'confirm', 'hold'].map((mode) => ({
+                  value: mode,
+                  label: localize(`editor.lock_${mode}`, lang),
+                })),
+              },
+            },
+          },
+          { name: 'read_only', selector: { boolean: {} } },
+        ],
+      },
+      {
+        name: 'advanced',
+        type: 'expandable',
+        flatten: true,
+        title: localize('editor.entities_title', lang),
+        icon: 'mdi:format-list-bulleted',
+        schema: [
+          { name: 'entity_pattern', selector: { text: {} } },
+          {
+            name: 'entities',
+            type: 'expandable',
+            title: localize('editor.entity_overrides', lang),
+            schema: ENTITY_SLOTS.map((slot) => ({
+              name: slot.configKey,
+              selector: {
+                entity: { domain: slot.domain, ...(slot.deviceClass ? { device_class: slot.deviceClass } : {}) },
+              },
+            })),
+          },
+        ],
+      },
+    ];
+  }
+
+  /**
+   * Get the values shown in the form
+   * @returns The configuration with the card's defaults filled in
+   */
+  private _getFormData(): FormData {
+    return { ...FORM_DEFAULTS, ...this._config };
+  }
+
+  /**
+   * Check the configuration and describe the problems next to the fields they concern
+   * @returns Error messages keyed by field name
    */
-  private _valueChanged(ev: CustomEvent): void {
+  private _validate(): Record<string, string> {
+    const lang = this._getLanguage();
+    const errors: Record<string, string> = {};
+    const config = this._config;
+
+    // With `devices`, the card ignores `device_id`, so there is no field to check
+    if (!config.devices) {
+      if (!config.device_id) {
+        errors.device_id = localize('editor.error_device_required', lang);
+      } else if (!this._deviceExists(config.device_id)) {
+        errors.device_id = localize('editor.error_device_not_found', lang).replace('{device}', config.device_id);
+      }
+    }
+
+    if (
+      typeof config.temperature_min === 'number' &&
+      typeof config.temperature_max === 'number' &&
+      config.temperature_min >= config.temperature_max
+    ) {
+      errors.temperature_max = localize('editor.error_temperature_range', lang);
+    }
+
+    if (config.entity_pattern && !config.entity_pattern.includes('{device_id}')) {
+      errors.entity_pattern = localize('editor.error_entity_pattern', lang);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Check whether a device ID points to a device
+   * @param deviceId - A device registry ID, or a naming-convention suffix
+   * @returns True if the device was detected or is in the registry, or its face sensor or night light exists
+   */
+  private _deviceExists(deviceId: string): boolean {
+    const devices = (this.hass as HomeAssistant & { devices?: Record<string, unknown> }).devices;
+    if (devices?.[deviceId] || this._detected.some((device) => device.id === deviceId)) return true;
+
+    const entities = this._getPreviewEntities(deviceId);
+    return [entities.face, entities.light].some((entityId) => entityId && this.hass.states[entityId]);
+  }
+
+  /**
+   * Get the entities the card will use for a device, as far as the editor can tell
+   * @param deviceId - A device registry ID, or a naming-convention suffix
+   * @returns The detected entities, or the naming convention, with the overrides applied
+   */
+  private _getPreviewEntities(deviceId: string): RemiEntity {
+    const detected = this._detected.find((device) => device.id === deviceId);
+    const pattern = this._config.entity_pattern || undefined;
+    const entities = detected?.entities || getNamingConventionEntities(deviceId, pattern);
+    return applyEntityOverrides(entities, this._config.entities);
+  }
+
+  /**
+   * Get the label of a form field
+   * @param schema - The field
+   * @returns The translated label
+   */
+  private _computeLabel = (schema: HaFormSchema): string => {
+    const lang = this._getLanguage();
+    if (ENTITY_SLOTS.some((slot) => slot.configKey === schema.name)) {
+      return localize(`editor.entity.${schema.name}`, lang);
+    }
+    return localize(`editor.${schema.name}`, lang);
+  };
+
+  /**
+   * Get the helper text shown below a form field
+   * @param schema - The field
+   * @returns The translated helper, or undefined for fields without one
+   */
+  private _computeHelper = (schema: HaFormSchema): string | undefined => {
+    const lang = this._getLanguage();
+    if (schema.name === 'device_id') return localize('editor.device_id_helper', lang);
+    if (schema.name === 'sections') return localize('editor.sections_helper', lang);
+    if (schema.name === 'entity_pattern') {
+      return localize('editor.entity_pattern_helper', lang).replace('{pattern}', DEFAULT_ENTITY_PATTERN);
+    }
+    return undefined;
+  };
+
+  /**
+   * Handle value changes from the form
+   * Only the fields the user changed are written, so defaults shown in the form stay out of the configuration
+   * @param ev - The value-changed event carrying all form values
+   */
+  private _valueChanged(ev: CustomEvent<{ value: FormData }>): void {
+    ev.stopPropagation();
     if (!this._config || !this.hass) {
       return;
     }
 
-    const target = ev.target as HTMLInputElement & {
-      configValue?: string;
-      checked?: boolean;
-    };
-    const value = target.value;
-
-    if (target.configValue) {
-      const newConfig = {
-        ...this._config,
-        [target.configValue]: target.checked !== undefined ? target.checked : value,
-      };
-
-      const event = new CustomEvent('config-changed', {
-        detail: { config: newConfig },
-        bubbles: true,
-        composed: true,
-      });
-      this.dispatchEvent(event);
+    const data = ev.detail.value;
+    const previous = this._getFormData();
+    const config: FormData = { ...this._config };
+
+    for (const key of new Set([...Object.keys(data), ...Object.keys(previous)])) {
+      if (JSON.stringify(data[key]) === JSON.stringify(previous[key])) continue;
+
+      const value = key === 'entities' ? this._cleanEntities(data[key] as RemiEntityConfig | undefined) : data[key];
+      if (value === undefined || value === '' || (Array.isArray(value) && !value.length)) {
+        delete config[key];
+      } else {
+        config[key] = value;
+      }
     }
+
+    this._fireConfigChanged(config as unknown as RemiCardConfig);
+  }
+
+  /**
+   * Drop cleared entity overrides
+   * @param entities - The overrides from the form
+   * @returns The remaining overrides, or undefined if none is left
+   */
+  private _cleanEntities(entities?: RemiEntityConfig): RemiEntityConfig | undefined {
+    const cleaned = Object.fromEntries(Object.entries(entities || {}).filter(([, entityId]) => entityId));
+    return Object.keys(cleaned).length ? cleaned : undefined;
+  }
+
+  /**
+   * Dispatch a 'config-changed' event with the updated configuration
+   * @param config - The new card configuration
+   */
+  private _fireConfigChanged(config: RemiCardConfig): void {
+    const event = new CustomEvent('config-changed', {
+      detail: { config },
+      bubbles: true,
+      composed: true,
+    });
+    this.dispatchEvent(event);
   }
 
   /**
@@ -87,102 +494,121 @@ export class RemiCardEditor extends LitElement {
       return html``;
     }
 
+    const data = this._getFormData();
+    const errors = this._validate();
+
+    return html`
+      ${this._config.devices
+        ? html`
+            <ha-alert alert-type="info">
+              ${localize('editor.devices_yaml', this._getLanguage()).replace(
+                '{count}',
+                String(this._config.devices.length)
+              )}
+            </ha-alert>
+          `
+        : html`
+            <ha-form
+              .hass=${this.hass}
+              .data=${data}
+              .schema=${this._getDeviceSchema()}
+              .error=${errors}
+              .computeLabel=${this._computeLabel}
+              .computeHelper=${this._computeHelper}
+              @value-changed=${this._valueChanged}
+            ></ha-form>
+            ${this._renderEntityCheck()}
+          `}
+      <ha-form
+        .hass=${this.hass}
+        .data=${data}
+        .schema=${this._getOptionsSchema()}
+        .error=${errors}
+        .computeLabel=${this._computeLabel}
+        .computeHelper=${this._computeHelper}
+        @value-changed=${this._valueChanged}
+      ></ha-form>
+    `;
+  }
+
+  /**
+   * Render which of the expected entities exist for the chosen device
+   * @returns Template result for the checklist, or an empty template without a device
+   */
+  private _renderEntityCheck(): TemplateResult {
+    if (!this._config.device_id) return html``;
+
     const lang = this._getLanguage();
+    const checks = diagnoseEntities(this.hass, this._getPreviewEntities(this._config.device_id));
+    const icons = { ok: 'mdi:check-circle', unavailable: 'mdi:alert', missing: 'mdi:close-circle' };
 
     return html`
-      <div class="card-config">
-        <div class="option">
-          <ha-textfield
-            label="${localize('editor.device_id', lang)}"
-            .value=${this._config.device_id || ''}
-            .configValue=${'device_id'}
-            @input=${this._valueChanged}
-          ></ha-textfield>
-        </div>
-
-        <div class="option">
-          <ha-textfield
-            label="${localize('editor.device_name', lang)}"
-            .value=${this._config.device_name || ''}
-            .configValue=${'device_name'}
-            @input=${this._valueChanged}
-          ></ha-textfield>
-        </div>
-
-        <div class="option">
-          <ha-formfield label="${localize('editor.show_face_selector', lang)}">
-            <ha-switch
-              .checked=${this._config.show_face_selector !== false}
-              .configValue=${'show_face_selector'}
-              @change=${this._valueChanged}
-            ></ha-switch>
-          </ha-formfield>
-        </div>
-
-        <div class="option">
-          <ha-formfield label="${localize('editor.show_controls', lang)}">
-            <ha-switch
-              .checked=${this._config.show_controls !== false}
-              .configValue=${'show_controls'}
-              @change=${this._valueChanged}
-            ></ha-switch>
-          </ha-formfield>
-        </div>
-
-        <div class="option">
-          <ha-formfield label="${localize('editor.show_temperature_graph', lang)}">
-            <ha-switch
-              .checked=${this._config.show_temperature_graph !== false}
-              .configValue=${'show_temperature_graph'}
-              @change=${this._valueChanged}
-            ></ha-switch>
-          </ha-formfield>
-        </div>
-
-        <div class="option">
-          <ha-formfield label="${localize('editor.show_connectivity', lang)}">
-            <ha-switch
-              .checked=${this._config.show_connectivity !== false}
-              .configValue=${'show_connectivity'}
-              @change=${this._valueChanged}
-            ></ha-switch>
-          </ha-formfield>
-        </div>
-
-        <div class="option">
-          <ha-textfield
-            label="${localize('editor.hours_to_show', lang)}"
-            type="number"
-            .value=${this._config.hours_to_show || 24}
-            .configValue=${'hours_to_show'}
-            @input=${this._valueChanged}
-          ></ha-textfield>
-        </div>
+      <div class="entity-check">
+        ${checks.map(
+          (check) => html`
+            <div class="entity-check-row ${check.status}">
+              <ha-icon icon="${icons[check.status]}"></ha-icon>
+              <span class="entity-check-slot">${localize(`editor.entity.${check.slot.configKey}`, lang)}</span>
+              <code>${check.entityId || localize('diagnostics.not_resolved', lang)}</code>
+            </div>
+          `
+        )}
       </div>
     `;
   }
 
   static get styles() {
     return css`
-      .card-config {
+      ha-form {
+        display: block;
+      }
+
+      ha-alert {
+        display: block;
+        margin-bottom: 16px;
+      }
+
+      .entity-check {
         display: flex;
         flex-direction: column;
-        gap: 16px;
+        gap: 4px;
+        margin: 8px 0 16px;
+        font-size: 0.9em;
       }
 
-      .option {
+      .entity-check-row {
         display: flex;
-        flex-direction: column;
+        align-items: center;
+        gap: 8px;
+        min-width: 0;
       }
 
-      ha-textfield {
-        width: 100%;
+      .entity-check-row ha-icon {
+        --mdc-icon-size: 18px;
+        flex-shrink: 0;
       }
 
-      ha-formfield {
-        display: flex;
-        align-items: center;
-        padding: 8px 0;
+      .entity-check-row.ok ha-icon {
+        color: var(--success-color, #4caf50);
+      }
+
+      .entity-check-row.unavailable ha-icon {
+        color: var(--warning-color, #ff9800);
+      }
+
+      .entity-check-row.missing ha-icon {
+        color: var(--error-color, #f44336);
+      }
+
+      .entity-check-slot {
+        flex-shrink: 0;
+      }
+
+      .entity-check-row code {
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+        color: var(--secondary-text-color);
       }
     `;
   }
@@ -5,9 +5,62 @@
 
 import { LitElement, html, css, PropertyValues, TemplateResult } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
-import { HomeAssistant, LovelaceCardEditor } from 'custom-card-helpers';
-import { getFaceIcon, FACE_STATES } from './face-images';
-import { localize, localizeFace, localizeCommon } from './localize';
+import {
+  HomeAssistant,
+  LovelaceCardEditor,
+  computeRTLDirection,
+  handleAction,
+  hasAction,
+} from 'custom-card-helpers';
+import {
+  FACE_STATES,
+  FaceConfig,
+  UNKNOWN_FACE_ICON,
+  getFaceIcon,
+  getFaceImage,
+  getFaceLabel,
+  normalizeFaces,
+} from './face-images';
+import { localize, localizeCommon } from './localize';
+import {
+  CORE_SLOTS,
+  ENTITY_SLOTS,
+  EntityDiagnostic,
+  RemiEntity,
+  applyEntityOverrides,
+  detectRemiDevices,
+  diagnoseEntities,
+  getEntityStatus,
+  getNamingConventionEntities,
+  onRegistriesUpdated,
+  resolveDeviceEntities,
+} from './entities';
+import './temperature-graph';
+import './sleep-timeline';
+import './sleep-stats';
+import {
+  TemperatureUnit,
+  convertTemperature,
+  formatPercent,
+  formatRelativeTime,
+  formatSensorState,
+  formatTemperature,
+  getSensorTemperatureUnit,
+  getTemperaturePrecision,
+  toTemperatureUnit,
+} from './format';
+import { LightRamp, LightRampController, RampKind } from './light-ramp';
+import { PendingChangesController, PendingFailure } from './pending-changes';
+import { ActionHandlerDetail, ActionHandlerOptions, actionHandler } from './action-handler';
+import {
+  ActionTarget,
+  CARD_SECTIONS,
+  CardSection,
+  ElementActionConfig,
+  RemiCardConfig,
+  RemiDeviceConfig,
+  validateConfig,
+} from './config';
 
 /**
  * Base interface for Home Assistant entity state
@@ -72,37 +125,150 @@ interface SelectEntity extends HassEntity {
 }
 
 /**
- * Configuration interface for the Rémi Card
+ * Default comfort range for a baby's room, in °C (converted when displaying °F)
  */
-interface RemiCardConfig {
-  type: string;
-  device_id: string;
-  device_name?: string;
-  title?: string;
-  show_controls?: boolean;
-  show_face_selector?: boolean;
-  show_temperature_graph?: boolean;
-  show_connectivity?: boolean;
-  hours_to_show?: number;
+const DEFAULT_TEMPERATURE_MIN = 16;
+const DEFAULT_TEMPERATURE_MAX = 20;
+
+/**
+ * Default time, in minutes, the temperature must stay out of range before warning
+ */
+const DEFAULT_TEMPERATURE_WARNING_DELAY = 15;
+
+/**
+ * Sleep timer durations offered in the light section, in minutes
+ */
+const SLEEP_TIMER_PRESETS = [5, 10, 15, 30];
+
+/**
+ * Default sunrise settings: ramp duration in minutes and target brightness percentage
+ */
+const DEFAULT_SUNRISE_DURATION = 15;
+const DEFAULT_SUNRISE_BRIGHTNESS = 80;
+
+/**
+ * Brightness percentage used to turn a night light on when its last brightness is unknown
+ */
+const DEFAULT_TURN_ON_BRIGHTNESS = 50;
+
+/**
+ * Time the undo action stays available after a change, in milliseconds
+ */
+const UNDO_DURATION = 6000;
+
+/**
+ * How long a locked button must be pressed in hold mode, in milliseconds
+ */
+const HOLD_DURATION = 1500;
+
+/**
+ * Time after releasing a completed long press during which its click is ignored, in milliseconds
+ */
+const HOLD_CLICK_DELAY = 300;
+
+/**
+ * Height of each section, in card size units of about 50 pixels
+ */
+const SECTION_SIZES: Record<CardSection, number> = {
+  header: 2,
+  faces: 2,
+  light: 1,
+  temperature: 3,
+  timeline: 2,
+  stats: 4,
+  connectivity: 1,
+};
+
+/**
+ * Sections shown for each device of the device grid, and in the left column of the horizontal layout
+ */
+const CONTROL_SECTIONS: CardSection[] = ['header', 'faces', 'light'];
+
+/**
+ * Device ID suffix used by the stub configuration when no Rémi device is detected
+ */
+const EXAMPLE_DEVICE_ID = 'garance';
+
+/**
+ * Wi-Fi signal quality levels, from the lowest RSSI (in dBm) they start at
+ */
+const SIGNAL_LEVELS: { level: SignalLevel; min: number; icon: string }[] = [
+  { level: 'excellent', min: -50, icon: 'mdi:wifi-strength-4' },
+  { level: 'good', min: -60, icon: 'mdi:wifi-strength-3' },
+  { level: 'fair', min: -70, icon: 'mdi:wifi-strength-2' },
+  { level: 'weak', min: -Infinity, icon: 'mdi:wifi-strength-1' },
+];
+
+/**
+ * How often the "last seen" time of offline devices is refreshed, in milliseconds
+ */
+const OFFLINE_REFRESH_INTERVAL = 30 * 1000;
+
+/**
+ * Quality of the Wi-Fi signal
+ */
+type SignalLevel = 'excellent' | 'good' | 'fair' | 'weak';
+
+/**
+ * Actions used when the configuration does not define them
+ */
+const DEFAULT_ACTIONS: Partial<Record<ActionTarget, ElementActionConfig>> = {
+  temperature: { tap_action: { action: 'more-info' } },
+};
+
+/**
+ * Position of a temperature reading relative to the comfort range
+ */
+type TemperatureStatus = 'cold' | 'comfortable' | 'hot';
+
+/**
+ * A configured device with its resolved entities
+ */
+interface RemiDeviceView {
+  config: RemiDeviceConfig;
+  entities: RemiEntity;
+  registryName: string | null;
+  resolved: boolean;
+}
+
+/**
+ * Custom event detail for hass-notification (toast)
+ */
+interface HassNotificationDetail {
+  message: string;
+  duration?: number;
+  action?: {
+    text: string;
+    action: () => void;
+  };
 }
 
 /**
- * Entity identifiers for Rémi device sensors and controls
+ * Face and brightness of a device captured before a change, used to undo it
  */
-interface RemiEntity {
+interface DeviceSnapshot {
+  device: RemiDeviceView;
   face: string | null;
-  faceSelect: string | null;
-  light: string | null;
-  temperature: string | null;
-  connectivity: string | null;
-  rssi: string | null;
+  brightness: number | null;
+}
+
+/**
+ * A face or light change requested from the card, possibly protected by the lock
+ */
+interface LockedAction {
+  key: string;
+  locked: boolean;
+  message: string;
+  run: () => void;
 }
 
 /**
- * Custom event detail for hass-more-info
+ * A locked action waiting for the user to confirm it
  */
-interface HassMoreInfoDetail {
-  entityId: string;
+interface LockConfirmation {
+  message: string;
+  confirm: () => void;
+  cancel?: () => void;
 }
 
 /**
@@ -129,25 +295,90 @@ declare global {
 export class RemiCard extends LitElement {
   @property({ attribute: false }) public hass!: HomeAssistant;
   @state() private _config!: RemiCardConfig;
-  @state() private _entities: RemiEntity = {
-    face: null,
-    faceSelect: null,
-    light: null,
-    temperature: null,
-    connectivity: null,
-    rssi: null,
-  };
+  @state() private _devices: RemiDeviceView[] = [];
+  @state() private _activeDevice = 0;
+  @state() private _rampMenu: { entityId: string; kind: RampKind } | null = null;
+  @state() private _customTimerMinutes = 20;
+  @state() private _sunriseMinutes: number | null = null;
+  @state() private _sunriseTime = '';
+  @state() private _confirmation: LockConfirmation | null = null;
+  @state() private _holding: string | null = null;
+  @state() private _diagnosticsDevice: string | null = null;
+
+  /**
+   * Entity settings (device ID, overrides and pattern) the current entities were resolved for
+   */
+  private _resolvedKey: string | null = null;
+
+  /**
+   * Time since which each temperature sensor has been out of the comfort range
+   */
+  private _outOfRangeSince = new Map<string, number>();
+
+  /**
+   * Timer re-rendering the card when a temperature warning becomes due
+   */
+  private _warningTimer?: number;
+
+  /**
+   * Timer refreshing the "last seen" time while a device is offline
+   */
+  private _offlineTimer?: number;
+
+  /**
+   * Removes the registry change listener
+   */
+  private _unsubscribeRegistries?: () => void;
+
+  /**
+   * Faces from the `faces` option, normalized once per configuration
+   */
+  private _faces: FaceConfig[] = [];
+
+  /**
+   * Timer running the action of a locked button once it has been held long enough
+   */
+  private _holdTimer?: number;
+
+  /**
+   * Whether the last long press completed, so the click that follows it is ignored
+   * Cleared on the next press, and shortly after the release since a press released elsewhere gets no click
+   */
+  private _holdDone = false;
+
+  /**
+   * Last brightness percentage seen for each light while it was on, to turn it back on at the same level
+   */
+  private _lastBrightness = new Map<string, number>();
+
+  /**
+   * Brightness ramps (sleep timer fade-outs and sunrises) running on the card's lights
+   */
+  private _lightRamps = new LightRampController(
+    this,
+    () => this._devices.map((device) => device.entities.light),
+    (ramp) => this._handleRampComplete(ramp),
+    (ramp, error) => this._handleChangeFailure(ramp.entityId, 'rejected', error)
+  );
+
+  /**
+   * Face and brightness changes shown before the device confirms them
+   */
+  private _pendingChanges = new PendingChangesController(this, (entityId, reason, error) =>
+    this._handleChangeFailure(entityId, reason, error)
+  );
 
   /**
    * Get a default stub configuration for the card
-   * Used when adding the card to Lovelace for the first time
-   * @returns Default configuration object
+   * Used when adding the card to Lovelace for the first time; picks the first detected Rémi device
+   * @param hass - The Home Assistant instance
+   * @returns Promise resolving to the default configuration object
    */
-  public static getStubConfig(): RemiCardConfig {
+  public static async getStubConfig(hass?: HomeAssistant): Promise<RemiCardConfig> {
+    const devices = hass ? await detectRemiDevices(hass).catch(() => []) : [];
     return {
       type: 'custom:remi-card',
-      device_id: 'garance',
-      device_name: 'Garance',
+      device_id: devices[0]?.id || EXAMPLE_DEVICE_ID,
       show_controls: true,
       show_face_selector: true,
       show_temperature_graph: true,
@@ -170,31 +401,94 @@ export class RemiCard extends LitElement {
    * Set the card configuration
    * Validates and applies the configuration with defaults
    * @param config - The card configuration object
-   * @throws Error if device_id is not specified
+   * @throws Error if the configuration is invalid (see validateConfig)
    */
   public setConfig(config: RemiCardConfig): void {
-    if (!config.device_id) {
-      throw new Error('You must specify a device_id');
-    }
+    const validated = validateConfig(config);
 
     this._config = {
       show_controls: true,
       show_face_selector: true,
       show_temperature_graph: true,
+      show_sleep_timeline: false,
+      show_sleep_stats: false,
       show_connectivity: true,
       hours_to_show: 24,
-      ...config,
+      sleep_timeline_period: 'night',
+      sleep_stats_nights: 7,
+      temperature_warning_delay: DEFAULT_TEMPERATURE_WARNING_DELAY,
+      sunrise_duration: DEFAULT_SUNRISE_DURATION,
+      sunrise_brightness: DEFAULT_SUNRISE_BRIGHTNESS,
+      sunrise_awake_face: true,
+      ...validated,
     };
+    this._faces = normalizeFaces(validated.faces);
 
     this._updateEntities();
   }
 
   /**
    * Get the card size for layout purposes
-   * @returns Card height in grid rows
+   * Adds up the heights of the shown sections for the configured layout
+   * @returns Card height in units of about 50 pixels
    */
   public getCardSize(): number {
-    return 5;
+    if (!this._config) return 1;
+
+    const layout = this._config.layout || 'full';
+    const deviceCount = this._config.devices?.length || 1;
+    if (layout === 'compact') return deviceCount;
+
+    const sections = this._getSections();
+    const sizeOf = (list: CardSection[]): number => list.reduce((sum, section) => sum + SECTION_SIZES[section], 0);
+    const controls = sections.filter((section) => CONTROL_SECTIONS.includes(section));
+    const details = sections.filter((section) => !CONTROL_SECTIONS.includes(section));
+    const applyToAll = this._config.devices && this._canControl() ? 2 : 0;
+
+    if (this._config.devices && this._config.devices_layout !== 'tabs') {
+      // Devices are laid out two per row in the grid
+      return Math.max(Math.ceil(deviceCount / 2) * sizeOf(controls) + applyToAll, 1);
+    }
+
+    const tabs = this._config.devices ? 1 : 0;
+    const body = layout === 'horizontal' ? Math.max(sizeOf(controls), sizeOf(details)) : sizeOf(sections);
+    return Math.max(body + tabs + applyToAll, 1);
+  }
+
+  /**
+   * Get the size of the card in the sections view
+   * Compact cards take half the width, horizontal cards the full width
+   * @returns Grid columns and rows, with the smallest size the content fits in
+   */
+  public getGridOptions(): { columns: number; rows: number; min_columns: number; min_rows: number } {
+    const layout = this._config?.layout || 'full';
+    const rows = this.getCardSize();
+    const wide = layout === 'horizontal' || (!!this._config?.devices && this._config.devices_layout !== 'tabs');
+
+    if (layout === 'compact') {
+      return { columns: 6, rows, min_columns: 4, min_rows: rows };
+    }
+    return { columns: wide ? 12 : 6, rows, min_columns: wide ? 9 : 4, min_rows: rows };
+  }
+
+  /**
+   * Get the sections to show, in order
+   * Without a `sections` list, the show_* options pick sections in their default order
+   * @returns The sections
+   */
+  private _getSections(): CardSection[] {
+    if (this._config.sections) return this._config.sections;
+
+    const shown: Record<CardSection, boolean | undefined> = {
+      header: true,
+      faces: this._config.show_face_selector,
+      light: this._config.show_controls,
+      temperature: this._config.show_temperature_graph,
+      timeline: this._config.show_sleep_timeline,
+      stats: this._config.show_sleep_stats,
+      connectivity: this._config.show_connectivity,
+    };
+    return CARD_SECTIONS.filter((section) => shown[section]);
   }
 
   /**
@@ -210,12 +504,14 @@ export class RemiCard extends LitElement {
 
     if (changedProps.has('hass')) {
       const oldHass = changedProps.get('hass') as HomeAssistant | undefined;
-      if (!oldHass || !this._entities) {
+      if (!oldHass || !this._devices.length) {
         return true;
       }
 
       // Check if any of our entities changed
-      const entities = Object.values(this._entities).filter((e) => e !== null);
+      const entities = this._devices.flatMap((device) =>
+        Object.values(device.entities).filter((e): e is string => e !== null)
+      );
       return entities.some((entityId) => {
         return oldHass.states[entityId] !== this.hass.states[entityId];
       });
@@ -224,6 +520,46 @@ export class RemiCard extends LitElement {
     return true;
   }
 
+  /**
+   * Lifecycle method called when the element is added to the DOM
+   * Resolves the entities again when devices or entities are added, renamed or removed
+   */
+  public connectedCallback(): void {
+    super.connectedCallback();
+    this._unsubscribeRegistries = onRegistriesUpdated(() => this._updateEntities(true));
+  }
+
+  /**
+   * Lifecycle method called when the element is removed from the DOM
+   * Stops pending timers
+   */
+  public disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this._unsubscribeRegistries?.();
+    this._unsubscribeRegistries = undefined;
+    window.clearTimeout(this._warningTimer);
+    window.clearInterval(this._offlineTimer);
+    this._offlineTimer = undefined;
+    this._handleHoldEnd();
+  }
+
+  /**
+   * Lifecycle method called before the element renders
+   * Tracks how long each temperature has been out of range
+   * @param changedProps - Map of changed properties
+   */
+  protected willUpdate(changedProps: PropertyValues): void {
+    super.willUpdate(changedProps);
+    if (changedProps.has('hass') && this.hass) {
+      this._pendingChanges.reconcile(this.hass.states);
+      this._updateLastBrightness();
+    }
+    if (changedProps.has('hass') || changedProps.has('_config') || changedProps.has('_devices')) {
+      this._updateTemperatureWarnings();
+      this._updateOfflineTimer();
+    }
+  }
+
   /**
    * Lifecycle method called after the element updates
    * Updates entity references when config or hass changes
@@ -234,26 +570,201 @@ export class RemiCard extends LitElement {
     if (changedProps.has('hass') || changedProps.has('_config')) {
       this._updateEntities();
     }
+    if (changedProps.has('_devices')) {
+      this._lightRamps.refresh();
+    }
+  }
+
+  /**
+   * Get the configured devices
+   * A single-device configuration is treated as a list of one
+   * @returns The device configurations
+   */
+  private _getDeviceConfigs(): RemiDeviceConfig[] {
+    if (this._config.devices) {
+      return this._config.devices;
+    }
+    return [
+      {
+        device_id: this._config.device_id as string,
+        device_name: this._config.device_name,
+        entities: this._config.entities,
+      },
+    ];
   }
 
   /**
-   * Update entity identifiers based on the device ID
-   * Constructs entity IDs for all Rémi device sensors and controls
+   * Update entity identifiers based on the device IDs
+   * Starts from the naming pattern, then switches to the registry entities
+   * when a device ID is a device registry ID; per-entity overrides always win
+   * @param refresh - Resolve again with unchanged settings, after a registry change
    */
-  private _updateEntities(): void {
+  private _updateEntities(refresh = false): void {
     if (!this.hass || !this._config) return;
 
-    const deviceId = this._config.device_id;
-    this._entities = {
-      face: `sensor.remi_${deviceId}_face`,
-      faceSelect: `select.remi_${deviceId}_face`,
-      light: `light.remi_${deviceId}_night_light`,
-      temperature: `sensor.remi_${deviceId}_temperature`,
-      connectivity: `binary_sensor.remi_${deviceId}_connectivity`,
-      rssi: `sensor.remi_${deviceId}_rssi`,
+    const configs = this._getDeviceConfigs();
+    const pattern = this._config.entity_pattern || undefined;
+    const key = JSON.stringify([configs, pattern]);
+    if (this._resolvedKey === key && !refresh) return;
+
+    if (this._resolvedKey !== key) {
+      this._resolvedKey = key;
+      this._activeDevice = Math.min(this._activeDevice, configs.length - 1);
+      this._devices = configs.map((config) => ({
+        config,
+        entities: applyEntityOverrides(getNamingConventionEntities(config.device_id, pattern), config.entities),
+        registryName: null,
+        resolved: false,
+      }));
+    }
+
+    configs.forEach((config, index) => {
+      const named = applyEntityOverrides(getNamingConventionEntities(config.device_id, pattern), config.entities);
+      resolveDeviceEntities(this.hass, config.device_id)
+        .catch(() => {
+          // Registries unavailable (e.g., non-admin user), keep the naming convention
+          return null;
+        })
+        .then((device) => {
+          // Ignore results for settings that are no longer configured
+          if (this._resolvedKey !== key) return;
+          this._devices = this._devices.map((view, i) => {
+            if (i !== index) return view;
+            if (!device) return { config, entities: named, registryName: null, resolved: true };
+            return {
+              config,
+              entities: applyEntityOverrides(device.entities, config.entities),
+              registryName: device.name,
+              resolved: true,
+            };
+          });
+        });
+    });
+  }
+
+  /**
+   * Get the unit temperatures are displayed in
+   * @param device - The device to read
+   * @returns The forced unit from the configuration, or the sensor's own unit
+   */
+  private _getTemperatureUnit(device: RemiDeviceView): TemperatureUnit {
+    return (
+      toTemperatureUnit(this._config.temperature_unit) ||
+      getSensorTemperatureUnit(this.hass, device.entities.temperature)
+    );
+  }
+
+  /**
+   * Get a device's temperature in the display unit
+   * @param device - The device to read
+   * @returns The temperature, or null if the reading is unavailable
+   */
+  private _getTemperatureValue(device: RemiDeviceView): number | null {
+    const value = parseFloat(this._getTemperatureState(device)?.state ?? '');
+    if (isNaN(value)) return null;
+
+    const sensorUnit = getSensorTemperatureUnit(this.hass, device.entities.temperature);
+    return convertTemperature(value, sensorUnit, this._getTemperatureUnit(device));
+  }
+
+  /**
+   * Format a temperature for a device in its display unit and precision
+   * @param device - The device the temperature belongs to
+   * @param value - The temperature, in the display unit
+   * @returns The formatted temperature
+   */
+  private _formatTemperature(device: RemiDeviceView, value: number): string {
+    return formatTemperature(
+      this.hass,
+      value,
+      this._getTemperatureUnit(device),
+      getTemperaturePrecision(this.hass, device.entities.temperature)
+    );
+  }
+
+  /**
+   * Get the comfort range from the configuration
+   * Configured bounds are in the display unit; defaults are converted from °C
+   * @param device - The device the range applies to
+   * @returns The minimum and maximum comfortable temperatures
+   */
+  private _getComfortRange(device: RemiDeviceView): { min: number; max: number } {
+    const unit = this._getTemperatureUnit(device);
+    const min = Number(this._config.temperature_min ?? NaN);
+    const max = Number(this._config.temperature_max ?? NaN);
+    return {
+      min: isNaN(min) ? Math.round(convertTemperature(DEFAULT_TEMPERATURE_MIN, '°C', unit)) : min,
+      max: isNaN(max) ? Math.round(convertTemperature(DEFAULT_TEMPERATURE_MAX, '°C', unit)) : max,
     };
   }
 
+  /**
+   * Classify a device's temperature against the comfort range
+   * @param device - The device to read
+   * @returns The temperature status, or null if the reading is unavailable
+   */
+  private _getTemperatureStatus(device: RemiDeviceView): TemperatureStatus | null {
+    const value = this._getTemperatureValue(device);
+    if (value === null) return null;
+
+    const { min, max } = this._getComfortRange(device);
+    if (value < min) return 'cold';
+    if (value > max) return 'hot';
+    return 'comfortable';
+  }
+
+  /**
+   * Record when each temperature left the comfort range
+   * Uses the sensor's last change as the start of the excursion when first seen out of range,
+   * and schedules a re-render for the next warning that becomes due
+   */
+  private _updateTemperatureWarnings(): void {
+    if (!this.hass || !this._config) return;
+
+    const now = Date.now();
+    const delay = (Number(this._config.temperature_warning_delay) || 0) * 60 * 1000;
+    let nextDue = Infinity;
+
+    for (const device of this._devices) {
+      const entityId = device.entities.temperature;
+      if (!entityId) continue;
+
+      const status = this._getTemperatureStatus(device);
+      if (status !== 'cold' && status !== 'hot') {
+        this._outOfRangeSince.delete(entityId);
+        continue;
+      }
+
+      let since = this._outOfRangeSince.get(entityId);
+      if (since === undefined) {
+        since = new Date(this._getState(entityId)?.last_changed ?? now).getTime();
+        this._outOfRangeSince.set(entityId, since);
+      }
+      if (since + delay > now) {
+        nextDue = Math.min(nextDue, since + delay);
+      }
+    }
+
+    window.clearTimeout(this._warningTimer);
+    if (nextDue !== Infinity) {
+      this._warningTimer = window.setTimeout(() => this.requestUpdate(), nextDue - now);
+    }
+  }
+
+  /**
+   * Keep the "last seen" time of offline devices up to date
+   * Runs a refresh timer only while at least one device is offline
+   */
+  private _updateOfflineTimer(): void {
+    const offline = this._devices.some((device) => this._getOfflineSince(device) !== null);
+    if (offline && this._offlineTimer === undefined) {
+      this._offlineTimer = window.setInterval(() => this.requestUpdate(), OFFLINE_REFRESH_INTERVAL);
+    } else if (!offline && this._offlineTimer !== undefined) {
+      window.clearInterval(this._offlineTimer);
+      this._offlineTimer = undefined;
+    }
+  }
+
   /**
    * Get the state object for an entity
    * @param entityId - The entity ID to retrieve
@@ -265,53 +776,200 @@ export class RemiCard extends LitElement {
   }
 
   /**
-   * Get the current face state
+   * Get the current face state, or the face requested from the card while it is pending
+   * @param device - The device to read
    * @returns The face state string or null if unavailable
    */
-  private _getFaceState(): string | null {
-    const faceEntity = this._getState(this._entities.face) as SensorEntity | undefined;
+  private _getFaceState(device: RemiDeviceView): string | null {
+    const pending = this._pendingChanges.get(device.entities.faceSelect);
+    if (typeof pending === 'string') return pending;
+
+    const faceEntity = this._getState(device.entities.face) as SensorEntity | undefined;
     if (!faceEntity || faceEntity.state === 'unavailable') return null;
     return faceEntity.state;
   }
 
   /**
    * Get the night light state
+   * @param device - The device to read
    * @returns The light entity state object or undefined if not found
    */
-  private _getLightState(): LightEntity | undefined {
-    return this._getState(this._entities.light) as LightEntity | undefined;
+  private _getLightState(device: RemiDeviceView): LightEntity | undefined {
+    return this._getState(device.entities.light) as LightEntity | undefined;
+  }
+
+  /**
+   * Get the configured faces with their label and image overrides
+   * @returns The faces from the `faces` option, in configured order
+   */
+  private _getFaces(): FaceConfig[] {
+    return this._faces;
+  }
+
+  /**
+   * Get the faces a device accepts, from its select entity
+   * @param device - The device to read
+   * @returns The select entity's options, or null if it does not report them
+   */
+  private _getDeviceFaces(device: RemiDeviceView): string[] | null {
+    const options = this._getFaceSelectState(device)?.attributes.options;
+    return Array.isArray(options) && options.length ? options : null;
+  }
+
+  /**
+   * Get the faces offered by the face selector, in display order
+   * Only faces every device accepts are offered; the `faces` option restricts and orders them
+   * @param devices - The devices the selector controls
+   * @returns The face state identifiers
+   */
+  private _getFaceOptions(devices: RemiDeviceView[]): string[] {
+    const reported = devices
+      .map((device) => this._getDeviceFaces(device))
+      .filter((options): options is string[] => options !== null);
+    const configured = this._getFaces().map((config) => config.face);
+    const faces = configured.length ? configured : (reported[0] ?? [...FACE_STATES]);
+    return faces.filter((face) => reported.every((options) => options.includes(face)));
+  }
+
+  /**
+   * Compare the bundled faces with the faces a device accepts
+   * @param device - The device to check
+   * @returns Bundled faces the device lacks and device faces the card does not know, or null if they agree
+   */
+  private _getFaceMismatch(device: RemiDeviceView): { missing: string[]; unknown: string[] } | null {
+    const options = this._getDeviceFaces(device);
+    if (!options) return null;
+
+    const known: readonly string[] = FACE_STATES;
+    const missing = known.filter((face) => !options.includes(face));
+    const unknown = options.filter((option) => !known.includes(option));
+    return missing.length || unknown.length ? { missing, unknown } : null;
+  }
+
+  /**
+   * Get the label of a face, using the configured override if any
+   * @param face - The face state identifier
+   * @returns The label to display
+   */
+  private _getFaceLabel(face: string): string {
+    return getFaceLabel(face, this._getLanguage(), this._getFaces());
+  }
+
+  /**
+   * Get whether the night light is on and its brightness
+   * A brightness requested from the card is shown until the light confirms it
+   * @param device - The device to read
+   * @returns Whether the light is on, and its brightness percentage or null if unknown
+   */
+  private _getLightLevel(device: RemiDeviceView): { on: boolean; brightness: number | null } {
+    const pending = this._pendingChanges.get(device.entities.light);
+    if (typeof pending === 'number') {
+      return { on: pending > 0, brightness: pending > 0 ? pending : null };
+    }
+
+    const lightState = this._getLightState(device);
+    const brightness = lightState?.attributes.brightness;
+    return {
+      on: lightState?.state === 'on',
+      brightness: brightness ? Math.round((brightness / 255) * 100) : null,
+    };
+  }
+
+  /**
+   * Remember the brightness of the lights that are on
+   */
+  private _updateLastBrightness(): void {
+    for (const device of this._devices) {
+      const lightEntity = device.entities.light;
+      const lightState = this._getState(lightEntity);
+      const brightness = Number(lightState?.attributes.brightness);
+      if (lightEntity && lightState?.state === 'on' && brightness > 0) {
+        this._lastBrightness.set(lightEntity, Math.max(Math.round((brightness / 255) * 100), 1));
+      }
+    }
+  }
+
+  /**
+   * Get the brightness a night light turns on at
+   * @param device - The device to read
+   * @returns The current brightness, the last brightness seen, or a dim default; never full brightness by surprise
+   */
+  private _getTurnOnBrightness(device: RemiDeviceView): number {
+    const light = this._getLightLevel(device);
+    const lastBrightness = device.entities.light ? this._lastBrightness.get(device.entities.light) : undefined;
+    return light.brightness ?? lastBrightness ?? DEFAULT_TURN_ON_BRIGHTNESS;
   }
 
   /**
    * Get the temperature sensor state
+   * @param device - The device to read
    * @returns The temperature entity state object or undefined if not found
    */
-  private _getTemperatureState(): SensorEntity | undefined {
-    return this._getState(this._entities.temperature) as SensorEntity | undefined;
+  private _getTemperatureState(device: RemiDeviceView): SensorEntity | undefined {
+    return this._getState(device.entities.temperature) as SensorEntity | undefined;
   }
 
   /**
    * Get the face selector state
+   * @param device - The device to read
    * @returns The select entity state object or undefined if not found
    */
-  private _getFaceSelectState(): SelectEntity | undefined {
-    return this._getState(this._entities.faceSelect) as SelectEntity | undefined;
+  private _getFaceSelectState(device: RemiDeviceView): SelectEntity | undefined {
+    return this._getState(device.entities.faceSelect) as SelectEntity | undefined;
   }
 
   /**
    * Get the connectivity state
+   * @param device - The device to read
    * @returns The binary sensor entity state object or undefined if not found
    */
-  private _getConnectivityState(): BinarySensorEntity | undefined {
-    return this._getState(this._entities.connectivity) as BinarySensorEntity | undefined;
+  private _getConnectivityState(device: RemiDeviceView): BinarySensorEntity | undefined {
+    return this._getState(device.entities.connectivity) as BinarySensorEntity | undefined;
+  }
+
+  /**
+   * Get the time since which a device has been offline
+   * @param device - The device to read
+   * @returns Timestamp in milliseconds, or null if the device is connected or has no connectivity sensor
+   */
+  private _getOfflineSince(device: RemiDeviceView): number | null {
+    const connectivityState = this._getConnectivityState(device);
+    if (!connectivityState || connectivityState.state === 'on') return null;
+    return new Date(connectivityState.last_changed).getTime();
+  }
+
+  /**
+   * Check whether a device as a whole is unavailable, so its controls cannot work
+   * True when all its face and light entities are unavailable, or when it is offline and its light is unavailable
+   * @param device - The device to check
+   * @returns True if the device cannot be controlled
+   */
+  private _isDeviceUnavailable(device: RemiDeviceView): boolean {
+    const controls = [device.entities.face, device.entities.faceSelect, device.entities.light]
+      .map((entityId) => this._getState(entityId))
+      .filter((stateObj): stateObj is HassEntity => stateObj !== undefined);
+    if (!controls.length) return false;
+    if (controls.every((stateObj) => stateObj.state === 'unavailable')) return true;
+
+    return this._getOfflineSince(device) !== null && this._getLightState(device)?.state === 'unavailable';
+  }
+
+  /**
+   * Get the Wi-Fi signal quality of an RSSI reading
+   * @param rssi - Signal strength in dBm
+   * @returns The quality level with its icon
+   */
+  private _getSignalLevel(rssi: number): { level: SignalLevel; icon: string } {
+    return SIGNAL_LEVELS.find((level) => rssi >= level.min) || SIGNAL_LEVELS[SIGNAL_LEVELS.length - 1];
   }
 
   /**
    * Get the RSSI sensor state
+   * @param device - The device to read
    * @returns The sensor entity state object or undefined if not found
    */
-  private _getRssiState(): SensorEntity | undefined {
-    return this._getState(this._entities.rssi) as SensorEntity | undefined;
+  private _getRssiState(device: RemiDeviceView): SensorEntity | undefined {
+    return this._getState(device.entities.rssi) as SensorEntity | undefined;
   }
 
   /**
@@ -323,259 +981,1465 @@ export class RemiCard extends LitElement {
   }
 
   /**
-   * Control the night light brightness
-   * Turns the light on/off or adjusts brightness
-   * @param brightness - Brightness percentage (0-100), 0 turns off the light
+   * Get the display name of a device
+   * @param device - The device to name
+   * @returns The configured name, the registry name, or the device ID
    */
-  private _handleLightControl(brightness: number): void {
-    if (!this._entities.light) return;
-
-    if (brightness === 0) {
-      this.hass.callService('light', 'turn_off', {
-        entity_id: this._entities.light,
-      });
-    } else {
-      this.hass.callService('light', 'turn_on', {
-        entity_id: this._entities.light,
-        brightness_pct: brightness,
-      });
-    }
+  private _getDeviceName(device: RemiDeviceView): string {
+    return device.config.device_name || device.registryName || device.config.device_id;
   }
 
   /**
-   * Change the displayed face on the Rémi device
-   * @param face - The face state to select (e.g., 'sleepyFace', 'awakeFace')
+   * Check whether a device is missing an entity the card cannot work without
+   * Only reported once the registries have been checked, so registry devices do not flash an error
+   * @param device - The device to check
+   * @returns True if a core entity does not exist
    */
-  private _handleFaceSelect(face: string): void {
-    if (!this._entities.faceSelect) return;
-
-    this.hass.callService('select', 'select_option', {
-      entity_id: this._entities.faceSelect,
-      option: face,
-    });
+  private _hasMissingCoreEntities(device: RemiDeviceView): boolean {
+    return device.resolved && CORE_SLOTS.some((slot) => !this._getState(device.entities[slot]));
   }
 
   /**
-   * Handle brightness slider input changes
-   * Provides immediate UI feedback without calling the service
-   * @param _e - The input event (unused)
+   * Check whether any entity of a device is missing or unavailable
+   * Replacements are only looked for when the diagnostics panel is shown
+   * @param device - The device to check
+   * @returns True if the diagnostics panel has something to report
    */
-  private _handleSliderChange(_e: Event): void {
-    // Update UI immediately for smooth interaction
-    // Visual feedback only, don't call service yet
-    this.requestUpdate();
+  private _hasEntityIssues(device: RemiDeviceView): boolean {
+    return ENTITY_SLOTS.some((slot) => getEntityStatus(this.hass, device.entities[slot.slot]) !== 'ok');
   }
 
   /**
-   * Handle brightness slider release
-   * Calls the light service when user finishes dragging
-   * @param e - The change event containing the final brightness value
+   * Open or close the diagnostics panel of a device
+   * @param device - The device to diagnose
+   * @param e - The click event, kept from reaching the header actions
    */
-  private _handleSliderRelease(e: Event): void {
-    // Call service when slider is released
-    const target = e.target as HTMLInputElement;
-    const brightness = parseInt(target.value);
-
-    if (brightness === 0) {
-      this._handleLightControl(0);
-    } else {
-      this._handleLightControl(brightness);
-    }
+  private _toggleDiagnostics(device: RemiDeviceView, e: Event): void {
+    e.stopPropagation();
+    const deviceId = device.config.device_id;
+    this._diagnosticsDevice = this._diagnosticsDevice === deviceId ? null : deviceId;
   }
 
   /**
-   * Open the more-info dialog for an entity
-   * @param entityId - The entity ID to show details for
+   * Control the night light brightness
+   * Turns the light on/off or adjusts brightness, replacing any sleep timer or sunrise running on it
+   * @param device - The device to control
+   * @param brightness - Brightness percentage (0-100), 0 turns off the light
    */
-  private _handleMoreInfo(entityId: string | null): void {
-    if (!entityId) return;
+  private _handleLightControl(device: RemiDeviceView, brightness: number): void {
+    const lightEntity = device.entities.light;
+    if (!lightEntity) return;
 
-    const event = new CustomEvent<HassMoreInfoDetail>('hass-more-info', {
-      detail: { entityId },
-      bubbles: true,
+    this._lightRamps.stop(lightEntity);
+
+    const isApplied = (stateObj: HassEntity | undefined): boolean => {
+      if (brightness === 0) return stateObj?.state === 'off';
+      const current = Number(stateObj?.attributes.brightness);
+      return stateObj?.state === 'on' && Math.abs(Math.round((current / 255) * 100) - brightness) <= 1;
+    };
+
+    this._pendingChanges.run(lightEntity, brightness, isApplied, () =>
+      brightness === 0
+        ? this.hass.callService('light', 'turn_off', {
+            entity_id: lightEntity,
+          })
+        : this.hass.callService('light', 'turn_on', {
+            entity_id: lightEntity,
+            brightness_pct: brightness,
+          })
+    );
+  }
+
+  /**
+   * Change the displayed face on the Rémi device
+   * @param device - The device to control
+   * @param face - The face state to select (e.g., 'sleepyFace', 'awakeFace')
+   */
+  private _handleFaceSelect(device: RemiDeviceView, face: string): void {
+    const faceSelectEntity = device.entities.faceSelect;
+    if (!faceSelectEntity) return;
+
+    this._pendingChanges.run(
+      faceSelectEntity,
+      face,
+      (stateObj) => stateObj?.state === face,
+      () =>
+        this.hass.callService('select', 'select_option', {
+          entity_id: faceSelectEntity,
+          option: face,
+        })
+    );
+  }
+
+  /**
+   * Capture the face and brightness of a device before changing them
+   * @param device - The device to read
+   * @returns The device's current face option and brightness (0 when off)
+   */
+  private _captureState(device: RemiDeviceView): DeviceSnapshot {
+    const pendingFace = this._pendingChanges.get(device.entities.faceSelect);
+    const face = typeof pendingFace === 'string' ? pendingFace : this._getFaceSelectState(device)?.state;
+    const light = this._getLightLevel(device);
+
+    return {
+      device,
+      face: face && face !== 'unavailable' && face !== 'unknown' ? face : null,
+      brightness: this._getLightState(device) ? (light.on ? (light.brightness ?? 100) : 0) : null,
+    };
+  }
+
+  /**
+   * Restore the face and brightness captured before a change
+   * Only the values that differ from the current state are sent
+   * @param snapshot - The captured state
+   */
+  private _restoreState(snapshot: DeviceSnapshot): void {
+    const current = this._captureState(snapshot.device);
+    if (snapshot.face !== null && snapshot.face !== current.face) {
+      this._handleFaceSelect(snapshot.device, snapshot.face);
+    }
+    if (snapshot.brightness !== null && snapshot.brightness !== current.brightness) {
+      this._handleLightControl(snapshot.device, snapshot.brightness);
+    }
+  }
+
+  /**
+   * Show a toast describing a change, with an action undoing it
+   * @param message - Description of the change
+   * @param snapshots - States captured before the change
+   */
+  private _offerUndo(message: string, snapshots: DeviceSnapshot[]): void {
+    const lang = this._getLanguage();
+    this._showToast(message, {
+      duration: UNDO_DURATION,
+      action: {
+        text: localize('undo.undo', lang),
+        action: () => snapshots.forEach((snapshot) => this._restoreState(snapshot)),
+      },
+    });
+  }
+
+  /**
+   * Change the face of devices from the card, offering to undo it
+   * @param devices - The devices to control
+   * @param face - The face state to select
+   */
+  private _changeFace(devices: RemiDeviceView[], face: string): void {
+    if (!this._canControl()) return;
+
+    const targets = devices.filter((device) => device.entities.faceSelect && !this._isDeviceUnavailable(device));
+    if (!targets.length) return;
+
+    const snapshots = targets.map((device) => this._captureState(device));
+    targets.forEach((device) => this._handleFaceSelect(device, face));
+
+    const lang = this._getLanguage();
+    this._offerUndo(localize('undo.face_changed', lang).replace('{face}', this._getFaceLabel(face)), snapshots);
+  }
+
+  /**
+   * Change the night light brightness of devices from the card, offering to undo it
+   * @param devices - The devices to control
+   * @param brightness - Brightness percentage (0-100), 0 turns off the light
+   */
+  private _changeBrightness(devices: RemiDeviceView[], brightness: number): void {
+    if (!this._canControl()) return;
+
+    const targets = devices.filter((device) => device.entities.light && !this._isDeviceUnavailable(device));
+    if (!targets.length) return;
+
+    const snapshots = targets.map((device) => this._captureState(device));
+    targets.forEach((device) => this._handleLightControl(device, brightness));
+
+    const lang = this._getLanguage();
+    const message =
+      brightness === 0
+        ? localize('undo.light_off', lang)
+        : localize('undo.light_changed', lang).replace('{brightness}', formatPercent(this.hass, brightness));
+    this._offerUndo(message, snapshots);
+  }
+
+  /**
+   * Report a face or brightness change that was rolled back
+   * @param entityId - The entity that failed to change
+   * @param reason - Whether the service call failed or the device did not respond
+   * @param error - The error returned by the service call
+   */
+  private _handleChangeFailure(entityId: string, reason: PendingFailure, error?: unknown): void {
+    const device = this._devices.find(
+      (view) => view.entities.light === entityId || view.entities.faceSelect === entityId
+    );
+    const lang = this._getLanguage();
+    const target = device?.entities.light === entityId ? 'light' : 'face';
+    const detail = (error as { message?: string } | undefined)?.message || String(error ?? '');
+
+    const message = localize(`errors.${target}_${reason}`, lang)
+      .replace('{device}', device ? this._getDeviceName(device) : entityId)
+      .replace('{error}', detail);
+    this._showToast(message);
+  }
+
+  /**
+   * Show a message in the Home Assistant toast
+   * @param message - The message to show
+   * @param options - Optional toast duration and action button
+   */
+  private _showToast(message: string, options: Omit<HassNotificationDetail, 'message'> = {}): void {
+    const event = new CustomEvent<HassNotificationDetail>('hass-notification', {
+      detail: { message, ...options },
+      bubbles: true,
       composed: true,
     });
     this.dispatchEvent(event);
   }
 
   /**
-   * Render the card header with face icon and status information
-   * @returns Template result for the header section
+   * Start a sleep timer fading the night light out
+   * @param device - The device to control
+   * @param minutes - Fade duration in minutes
+   */
+  private _handleSleepTimer(device: RemiDeviceView, minutes: number): void {
+    const lightState = this._getLightState(device);
+    if (!this._canControl() || !device.entities.light || lightState?.state !== 'on' || !(minutes > 0)) return;
+    if (this._isDeviceUnavailable(device)) return;
+
+    const brightness = Math.round(((lightState.attributes.brightness ?? 255) / 255) * 100);
+    this._lightRamps.fadeOut(device.entities.light, brightness, minutes * 60 * 1000);
+    this._rampMenu = null;
+  }
+
+  /**
+   * Get the sunrise duration, from the menu input or the configuration
+   * @returns Duration in minutes
+   */
+  private _getSunriseMinutes(): number {
+    return this._sunriseMinutes ?? (Number(this._config.sunrise_duration) || DEFAULT_SUNRISE_DURATION);
+  }
+
+  /**
+   * Get the next occurrence of a clock time
+   * @param time - The time as "HH:MM", or an empty string for now
+   * @returns Timestamp in milliseconds
+   */
+  private _getStartTime(time: string): number {
+    const now = Date.now();
+    const [hours, minutes] = time.split(':').map(Number);
+    if (!time || isNaN(hours) || isNaN(minutes)) return now;
+
+    const start = new Date(now);
+    start.setHours(hours, minutes, 0, 0);
+    if (start.getTime() <= now) {
+      start.setDate(start.getDate() + 1);
+    }
+    return start.getTime();
+  }
+
+  /**
+   * Start a sunrise ramping the night light up to the configured brightness
+   * @param device - The device to control
+   * @param minutes - Ramp duration in minutes
+   * @param time - Start time as "HH:MM", or an empty string to start now
+   */
+  private _handleSunrise(device: RemiDeviceView, minutes: number, time: string): void {
+    if (!this._canControl() || !device.entities.light || !(minutes > 0)) return;
+    if (this._isDeviceUnavailable(device)) return;
+
+    const target = Number(this._config.sunrise_brightness) || DEFAULT_SUNRISE_BRIGHTNESS;
+    const brightness = Math.min(Math.max(target, 1), 100);
+    this._lightRamps.sunrise(
+      device.entities.light,
+      brightness,
+      minutes * 60 * 1000,
+      this._getStartTime(time),
+      this._config.sunrise_awake_face !== false && !!device.entities.faceSelect
+    );
+    this._rampMenu = null;
+  }
+
+  /**
+   * Switch to the awake face when a sunrise that asked for it ends
+   * @param ramp - The finished ramp
+   */
+  private _handleRampComplete(ramp: LightRamp): void {
+    if (ramp.kind !== 'sunrise' || !ramp.wakeFace) return;
+
+    const device = this._devices.find((view) => view.entities.light === ramp.entityId);
+    if (device) {
+      this._handleFaceSelect(device, 'awakeFace');
+    }
+  }
+
+  /**
+   * Open a ramp menu, or close it if it is already open
+   * @param entityId - The light the menu controls
+   * @param kind - The kind of ramp the menu starts
+   */
+  private _toggleRampMenu(entityId: string, kind: RampKind): void {
+    const open = this._rampMenu?.entityId === entityId && this._rampMenu.kind === kind;
+    this._rampMenu = open ? null : { entityId, kind };
+  }
+
+  /**
+   * Format a remaining duration as a countdown
+   * @param duration - Remaining time in milliseconds
+   * @returns The countdown (e.g., "12:05" or "1:02:05")
+   */
+  private _formatCountdown(duration: number): string {
+    const totalSeconds = Math.ceil(duration / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+  }
+
+  /**
+   * Handle brightness slider input changes
+   * Provides immediate UI feedback without calling the service
+   * @param _e - The input event (unused)
+   */
+  private _handleSliderChange(_e: Event): void {
+    // Update UI immediately for smooth interaction
+    // Visual feedback only, don't call service yet
+    this.requestUpdate();
+  }
+
+  /**
+   * Handle brightness slider release
+   * Calls the light service when user finishes dragging
+   * @param devices - The devices to control
+   * @param e - The change event containing the final brightness value
+   * @param previous - Brightness shown before the change, restored if a locked change is cancelled
+   */
+  private _handleSliderRelease(devices: RemiDeviceView[], e: Event, previous: number): void {
+    // Call service when slider is released
+    const target = e.target as HTMLInputElement;
+    const brightness = parseInt(target.value);
+
+    const action = this._getBrightnessAction(devices, brightness);
+    if (!action.locked) {
+      action.run();
+      return;
+    }
+    // A slider cannot be held, so it always asks for confirmation when locked
+    this._confirmation = {
+      message: action.message,
+      confirm: action.run,
+      cancel: () => (target.value = String(previous)),
+    };
+  }
+
+  /**
+   * Check whether the current user may control the devices
+   * @returns False in read-only mode or for users missing from allowed_users
+   */
+  private _canControl(): boolean {
+    if (this._config.read_only) return false;
+
+    const allowed = this._config.allowed_users;
+    if (!allowed?.length) return true;
+    const userId = this.hass?.user?.id;
+    return !!userId && allowed.includes(userId);
+  }
+
+  /**
+   * Check whether a change from the card is protected by the lock
+   * @param face - The face the change selects, or undefined for light changes
+   * @returns True if the change needs a confirmation or a long press
+   */
+  private _isLocked(face?: string): boolean {
+    if (!this._config.lock || this._config.lock === 'none') return false;
+
+    const faces = this._config.lock_faces;
+    if (!faces?.length) return true;
+    return face !== undefined && faces.includes(face);
+  }
+
+  /**
+   * Describe a face change from the card
+   * @param devices - The devices to control
+   * @param face - The face state to select
+   * @returns The action, with its lock status and confirmation message
+   */
+  private _getFaceAction(devices: RemiDeviceView[], face: string): LockedAction {
+    const lang = this._getLanguage();
+    return {
+      key: `face:${devices.map((device) => device.config.device_id).join(',')}:${face}`,
+      locked: this._isLocked(face),
+      message: localize('lock.confirm_face', lang).replace('{face}', this._getFaceLabel(face)),
+      run: () => this._changeFace(devices, face),
+    };
+  }
+
+  /**
+   * Describe a brightness change from the card
+   * @param devices - The devices to control
+   * @param brightness - Brightness percentage (0-100), 0 turns off the light
+   * @returns The action, with its lock status and confirmation message
+   */
+  private _getBrightnessAction(devices: RemiDeviceView[], brightness: number): LockedAction {
+    const lang = this._getLanguage();
+    return {
+      key: `light:${devices.map((device) => device.config.device_id).join(',')}`,
+      locked: this._isLocked(),
+      message:
+        brightness === 0
+          ? localize('lock.confirm_light_off', lang)
+          : localize('lock.confirm_brightness', lang).replace('{brightness}', formatPercent(this.hass, brightness)),
+      run: () => this._changeBrightness(devices, brightness),
+    };
+  }
+
+  /**
+   * Handle a click on a button that may be locked
+   * Runs unlocked actions, asks for confirmation in confirm mode, and reminds to hold in hold mode
+   * @param action - The action of the button
+   */
+  private _handleLockedClick(action: LockedAction): void {
+    if (!action.locked) {
+      action.run();
+    } else if (this._holdDone) {
+      // The long press already ran the action
+      this._holdDone = false;
+    } else if (this._config.lock === 'confirm') {
+      this._confirmation = { message: action.message, confirm: action.run };
+    } else {
+      this._showToast(localize('lock.hold_hint', this._getLanguage()));
+    }
+  }
+
+  /**
+   * Start the long press of a locked button in hold mode
+   * @param action - The action of the button
+   */
+  private _handleHoldStart(action: LockedAction): void {
+    this._holdDone = false;
+    if (!action.locked || this._config.lock !== 'hold') return;
+
+    window.clearTimeout(this._holdTimer);
+    this._holding = action.key;
+    this._holdTimer = window.setTimeout(() => {
+      this._holding = null;
+      this._holdDone = true;
+      action.run();
+    }, HOLD_DURATION);
+  }
+
+  /**
+   * Abort a long press released or moved away before it completed
+   */
+  private _handleHoldEnd(): void {
+    window.clearTimeout(this._holdTimer);
+    this._holdTimer = undefined;
+    this._holding = null;
+    if (this._holdDone) {
+      window.setTimeout(() => (this._holdDone = false), HOLD_CLICK_DELAY);
+    }
+  }
+
+  /**
+   * Answer the pending lock confirmation
+   * @param confirmed - Whether the user confirmed the action
+   */
+  private _handleConfirmation(confirmed: boolean): void {
+    const confirmation = this._confirmation;
+    this._confirmation = null;
+    if (confirmed) {
+      confirmation?.confirm();
+    } else {
+      confirmation?.cancel?.();
+    }
+  }
+
+  /**
+   * Get the actions of a card element, with defaults
+   * @param target - The card element
+   * @returns The element's tap, hold and double-tap actions
+   */
+  private _getElementActions(target: ActionTarget): ElementActionConfig {
+    return { ...DEFAULT_ACTIONS[target], ...this._config.actions?.[target] };
+  }
+
+  /**
+   * Get the gestures a card element should recognize
+   * @param target - The card element
+   * @returns The action handler options
+   */
+  private _getActionOptions(target: ActionTarget): ActionHandlerOptions {
+    const actions = this._getElementActions(target);
+    return {
+      hasTap: hasAction(actions.tap_action),
+      hasHold: hasAction(actions.hold_action),
+      hasDoubleClick: hasAction(actions.double_tap_action),
+    };
+  }
+
+  /**
+   * Get the entity an element's actions apply to when they do not name one
+   * @param device - The device the element belongs to
+   * @param target - The card element
+   * @returns The entity ID, or null if not found
+   */
+  private _getActionEntity(device: RemiDeviceView, target: ActionTarget): string | null {
+    switch (target) {
+      case 'temperature':
+        return device.entities.temperature;
+      case 'connectivity':
+        return device.entities.connectivity;
+      default:
+        return device.entities.face;
+    }
+  }
+
+  /**
+   * Run the action configured for a gesture on a card element
+   * Toggling the night light goes through the card, so the lock, undo and pending state apply
+   * @param device - The device the element belongs to
+   * @param target - The card element
+   * @param ev - The action event with the recognized gesture
+   */
+  private _handleElementAction(
+    device: RemiDeviceView,
+    target: ActionTarget,
+    ev: CustomEvent<ActionHandlerDetail>
+  ): void {
+    const gesture = ev.detail.action;
+    const actionConfig = this._getElementActions(target)[`${gesture}_action`];
+    if (!actionConfig || !hasAction(actionConfig)) return;
+
+    const controls = actionConfig.action === 'toggle' || actionConfig.action === 'call-service';
+    if (controls && (!this._canControl() || this._isDeviceUnavailable(device))) return;
+
+    const entity = (actionConfig as { entity?: string }).entity;
+    if (actionConfig.action === 'toggle' && (!entity || entity === device.entities.light)) {
+      const light = this._getLightLevel(device);
+      this._handleLockedClick(this._getBrightnessAction([device], light.on ? 0 : this._getTurnOnBrightness(device)));
+      return;
+    }
+
+    handleAction(
+      this,
+      this.hass,
+      { entity: entity || this._getActionEntity(device, target) || undefined, [`${gesture}_action`]: actionConfig },
+      gesture
+    );
+  }
+
+  /**
+   * Render the card header with face icon and status information
+   * @param device - The device to render
+   * @returns Template result for the header section
+   */
+  private _renderHeader(device: RemiDeviceView): TemplateResult {
+    const unavailable = this._isDeviceUnavailable(device);
+    const faceState = unavailable ? 'blankFace' : this._getFaceState(device);
+    const light = this._getLightLevel(device);
+    const lang = this._getLanguage();
+
+    const deviceName = this._getDeviceName(device);
+    const faceName = faceState ? this._getFaceLabel(faceState) : localizeCommon('unknown', lang);
+
+    const tempStatus = this._getTemperatureStatus(device);
+    const tempValue = this._getTemperatureValue(device);
+    const tempText =
+      tempValue !== null
+        ? html`<span
+            class="temperature ${tempStatus || ''}"
+            ${actionHandler(this._getActionOptions('temperature'))}
+            @action=${(ev: CustomEvent<ActionHandlerDetail>) => this._handleElementAction(device, 'temperature', ev)}
+            >${this._formatTemperature(device, tempValue)}</span
+          >`
+        : '';
+
+    let statusText = ` • ${faceName}`;
+
+    if (unavailable) {
+      statusText = ` • ${localizeCommon('unavailable', lang)}`;
+    } else if (light.on) {
+      if (light.brightness !== null) {
+        statusText += ` • ${formatPercent(this.hass, light.brightness)}`;
+      }
+    } else {
+      statusText += ` • ${localizeCommon('off', lang)}`;
+    }
+
+    const isLightOn = light.on && !unavailable;
+    const tempClass = tempStatus && tempStatus !== 'comfortable' ? `temp-${tempStatus}` : '';
+    const hasIssues = this._hasEntityIssues(device);
+
+    return html`
+      <div
+        class="header ${isLightOn ? 'light-on' : ''} ${unavailable ? 'unavailable' : ''} ${tempClass}"
+        ${actionHandler(this._getActionOptions('header'))}
+        @action=${(ev: CustomEvent<ActionHandlerDetail>) => this._handleElementAction(device, 'header', ev)}
+      >
+        <div
+          class="face-container"
+          ${actionHandler(this._getActionOptions('face_icon'))}
+          @action=${(ev: CustomEvent<ActionHandlerDetail>) => this._handleElementAction(device, 'face_icon', ev)}
+        >
+          ${this._renderFaceImage(faceState, faceName, 'face-icon')}
+        </div>
+        <div class="info">
+          <div class="title">${localizeCommon('remi', lang)} ${deviceName}</div>
+          <div class="status">${tempText}${statusText}</div>
+        </div>
+        <button
+          class="diagnostics-btn ${hasIssues ? 'issues' : ''}"
+          title="${localize('diagnostics.title', lang)}"
+          @click=${(e: Event) => this._toggleDiagnostics(device, e)}
+        >
+          <ha-icon icon="${hasIssues ? 'mdi:alert-circle-outline' : 'mdi:stethoscope'}"></ha-icon>
+        </button>
+      </div>
+    `;
+  }
+
+  /**
+   * Render a banner when the device is offline or unavailable, as changes may not reach it
+   * @param device - The device to render
+   * @returns Template result for the banner, or an empty template
+   */
+  private _renderOfflineBanner(device: RemiDeviceView): TemplateResult {
+    const lang = this._getLanguage();
+    if (this._isDeviceUnavailable(device)) {
+      const message = localize('connectivity.unavailable_banner', lang).replace(
+        '{device}',
+        this._getDeviceName(device)
+      );
+      return html`
+        <div class="warning-banner offline">
+          <ha-icon icon="mdi:cloud-off-outline"></ha-icon>
+          <span>${message}</span>
+        </div>
+      `;
+    }
+
+    const offlineSince = this._getOfflineSince(device);
+    if (offlineSince === null) return html``;
+
+    const message = localize('connectivity.offline_banner', lang)
+      .replace('{device}', this._getDeviceName(device))
+      .replace('{time}', formatRelativeTime(this.hass, offlineSince));
+
+    return html`
+      <div class="warning-banner offline">
+        <ha-icon icon="mdi:cloud-off-outline"></ha-icon>
+        <span>${message}</span>
+      </div>
+    `;
+  }
+
+  /**
+   * Render a warning banner when the temperature has been out of range for too long
+   * @param device - The device to render
+   * @returns Template result for the warning, or an empty template
+   */
+  private _renderTemperatureWarning(device: RemiDeviceView): TemplateResult {
+    const entityId = device.entities.temperature;
+    const since = entityId ? this._outOfRangeSince.get(entityId) : undefined;
+    const status = this._getTemperatureStatus(device);
+    if (since === undefined || (status !== 'cold' && status !== 'hot')) return html``;
+
+    const delay = (Number(this._config.temperature_warning_delay) || 0) * 60 * 1000;
+    if (Date.now() - since < delay) return html``;
+
+    const lang = this._getLanguage();
+    const { min, max } = this._getComfortRange(device);
+    const message = localize(`temperature.warning_${status}`, lang)
+      .replace('{temperature}', this._formatTemperature(device, this._getTemperatureValue(device) as number))
+      .replace('{min}', this._formatTemperature(device, min))
+      .replace('{max}', this._formatTemperature(device, max));
+
+    return html`
+      <div class="warning-banner ${status}">
+        <ha-icon icon="${status === 'cold' ? 'mdi:snowflake-thermometer' : 'mdi:sun-thermometer'}"></ha-icon>
+        <span>${message}</span>
+      </div>
+    `;
+  }
+
+  /**
+   * Render the night light controls with brightness slider
+   * @param device - The device to render
+   * @returns Template result for the light control section
+   */
+  private _renderLightControls(device: RemiDeviceView): TemplateResult {
+    const unavailable = this._isDeviceUnavailable(device);
+    const light = this._getLightLevel(device);
+    const isOn = light.on && !unavailable;
+    const lang = this._getLanguage();
+    // Keep the brightness value even when light is off
+    const currentBrightness = this._getTurnOnBrightness(device);
+    const lightEntity = device.entities.light;
+    const pending = this._pendingChanges.has(lightEntity);
+    const toggle = this._getBrightnessAction([device], isOn ? 0 : currentBrightness);
+    const readOnly = !this._canControl() || unavailable;
+    const ramp = this._lightRamps.get(lightEntity);
+    const menu = lightEntity !== null && this._rampMenu?.entityId === lightEntity ? this._rampMenu.kind : null;
+
+    return html`
+      <div class="section ${unavailable ? 'unavailable' : ''}">
+        <div class="light-slider-container ${pending ? 'pending' : ''}">
+          <button
+            class="light-toggle-btn ${isOn ? 'on' : 'off'} ${this._holding === toggle.key ? 'holding' : ''}"
+            @click=${() => this._handleLockedClick(toggle)}
+            @pointerdown=${() => this._handleHoldStart(toggle)}
+            @pointerup=${this._handleHoldEnd}
+            @pointerleave=${this._handleHoldEnd}
+            @pointercancel=${this._handleHoldEnd}
+            ?disabled=${readOnly}
+            title="${isOn ? localizeCommon('turn_off', lang) : localizeCommon('turn_on', lang)}"
+          >
+            <ha-icon icon="${isOn ? 'mdi:lightbulb' : 'mdi:lightbulb-outline'}"></ha-icon>
+          </button>
+          <div class="slider-wrapper">
+            <input
+              type="range"
+              class="brightness-slider ${isOn ? 'active' : 'inactive'}"
+              min="0"
+              max="100"
+              .value=${unavailable ? '0' : currentBrightness.toString()}
+              @input=${(e: Event) => this._handleSliderChange(e)}
+              @change=${(e: Event) => this._handleSliderRelease([device], e, currentBrightness)}
+              ?disabled=${!isOn || readOnly}
+            />
+            <div class="brightness-value">${unavailable ? '—' : formatPercent(this.hass, currentBrightness)}</div>
+          </div>
+          ${isOn && !ramp && !readOnly
+            ? html`
+                <button
+                  class="timer-btn ${menu === 'fade' ? 'active' : ''}"
+                  @click=${() => this._toggleRampMenu(lightEntity as string, 'fade')}
+                  title="${localize('light.sleep_timer', lang)}"
+                >
+                  <ha-icon icon="mdi:timer-outline"></ha-icon>
+                </button>
+              `
+            : ''}
+          ${lightEntity && !ramp && !readOnly
+            ? html`
+                <button
+                  class="timer-btn ${menu === 'sunrise' ? 'active' : ''}"
+                  @click=${() => this._toggleRampMenu(lightEntity, 'sunrise')}
+                  title="${localize('light.sunrise', lang)}"
+                >
+                  <ha-icon icon="mdi:weather-sunset-up"></ha-icon>
+                </button>
+              `
+            : ''}
+        </div>
+        ${ramp ? this._renderTimerStatus(lightEntity as string) : ''}
+        ${!ramp && isOn && menu === 'fade' ? this._renderTimerMenu(device) : ''}
+        ${!ramp && menu === 'sunrise' ? this._renderSunriseMenu(device) : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Render the countdown of a running sleep timer or sunrise
+   * @param lightEntity - The light the ramp runs on
+   * @returns Template result for the ramp status
+   */
+  private _renderTimerStatus(lightEntity: string): TemplateResult {
+    const ramp = this._lightRamps.get(lightEntity);
+    if (!ramp) return html``;
+
+    const lang = this._getLanguage();
+    const sunrise = ramp.kind === 'sunrise';
+    let label = `${localize('light.fading_out', lang)} · ${this._formatCountdown(this._lightRamps.remaining(ramp))}`;
+    if (sunrise && ramp.start > Date.now()) {
+      const time = new Date(ramp.start).toLocaleTimeString(lang, { hour: '2-digit', minute: '2-digit' });
+      label = localize('light.sunrise_at', lang).replace('{time}', time);
+    } else if (sunrise) {
+      label = `${localize('light.sunrise', lang)} · ${this._formatCountdown(this._lightRamps.remaining(ramp))}`;
+    }
+
+    return html`
+      <div class="timer-row">
+        <ha-icon icon="${sunrise ? 'mdi:weather-sunset-up' : 'mdi:timer-sand'}"></ha-icon>
+        <span class="timer-label">${label}</span>
+        ${this._canControl()
+          ? html`
+              <button class="timer-chip" @click=${() => this._lightRamps.cancel(lightEntity)}>
+                ${localize('light.cancel', lang)}
+              </button>
+            `
+          : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Render the sleep timer duration choices
+   * @param device - The device to control
+   * @returns Template result for the timer menu
+   */
+  private _renderTimerMenu(device: RemiDeviceView): TemplateResult {
+    const lang = this._getLanguage();
+    return html`
+      <div class="timer-row">
+        ${SLEEP_TIMER_PRESETS.map(
+          (minutes) => html`
+            <button class="timer-chip" @click=${() => this._handleSleepTimer(device, minutes)}>
+              ${minutes} min
+            </button>
+          `
+        )}
+        <input
+          type="number"
+          class="timer-input"
+          min="1"
+          max="240"
+          .value=${String(this._customTimerMinutes)}
+          title="${localize('light.custom_minutes', lang)}"
+          @change=${(e: Event) => (this._customTimerMinutes = Number((e.target as HTMLInputElement).value))}
+        />
+        <button class="timer-chip" @click=${() => this._handleSleepTimer(device, this._customTimerMinutes)}>
+          ${localize('light.start', lang)}
+        </button>
+      </div>
+    `;
+  }
+
+  /**
+   * Render the sunrise duration and start time choices
+   * @param device - The device to control
+   * @returns Template result for the sunrise menu
+   */
+  private _renderSunriseMenu(device: RemiDeviceView): TemplateResult {
+    const lang = this._getLanguage();
+    return html`
+      <div class="timer-row">
+        <input
+          type="number"
+          class="timer-input"
+          min="1"
+          max="120"
+          .value=${String(this._getSunriseMinutes())}
+          title="${localize('light.custom_minutes', lang)}"
+          @change=${(e: Event) => (this._sunriseMinutes = Number((e.target as HTMLInputElement).value))}
+        />
+        <span class="timer-label">min</span>
+        <input
+          type="time"
+          class="timer-input time"
+          .value=${this._sunriseTime}
+          title="${localize('light.start_time', lang)}"
+          @change=${(e: Event) => (this._sunriseTime = (e.target as HTMLInputElement).value)}
+        />
+        <button
+          class="timer-chip"
+          @click=${() => this._handleSunrise(device, this._getSunriseMinutes(), this._sunriseTime)}
+        >
+          ${this._sunriseTime ? localize('light.schedule', lang) : localize('light.start', lang)}
+        </button>
+      </div>
+      <div class="timer-hint">${localize('light.sunrise_keep_open', lang)}</div>
+    `;
+  }
+
+  /**
+   * Render the image of a face, or a generic icon for faces without one
+   * @param face - The face state identifier, or null when unknown
+   * @param label - Alternative text for the image
+   * @param className - Class of the image (face-icon or face-icon-small)
+   * @returns Template result for the face image
+   */
+  private _renderFaceImage(face: string | null, label: string, className: string): TemplateResult {
+    const image = face ? getFaceImage(face, this._getFaces()) : getFaceIcon('blankFace');
+    if (!image) {
+      return html`<ha-icon icon="${UNKNOWN_FACE_ICON}" class="${className}" title="${label}"></ha-icon>`;
+    }
+    return html`<img src="${image}" alt="${label}" class="${className}" />`;
+  }
+
+  /**
+   * Render the face selector buttons
+   * @param device - The device to render
+   * @returns Template result for the face selector section
+   */
+  private _renderFaceSelector(device: RemiDeviceView): TemplateResult {
+    const faceSelectEntity = this._getFaceSelectState(device);
+    if (!faceSelectEntity) return html``;
+
+    const unavailable = this._isDeviceUnavailable(device);
+    const pendingFace = this._pendingChanges.get(device.entities.faceSelect);
+    const currentFace = unavailable ? null : (pendingFace ?? faceSelectEntity.state);
+    const readOnly = !this._canControl() || unavailable;
+
+    const faceOptions = this._getFaceOptions([device]).map((face) => {
+      const action = this._getFaceAction([device], face);
+      return {
+        value: face,
+        label: this._getFaceLabel(face),
+        classes: [
+          currentFace === face ? 'active' : '',
+          pendingFace === face ? 'pending' : '',
+          this._holding === action.key ? 'holding' : '',
+        ].join(' '),
+        action,
+      };
+    });
+
+    return html`
+      <div class="section ${unavailable ? 'unavailable' : ''}">
+        <div class="face-selector" style="--face-count: ${faceOptions.length}">
+          ${faceOptions.map(
+            (option) => html`
+              <button
+                class="face-btn ${option.classes}"
+                @click=${() => this._handleLockedClick(option.action)}
+                @pointerdown=${() => this._handleHoldStart(option.action)}
+                @pointerup=${this._handleHoldEnd}
+                @pointerleave=${this._handleHoldEnd}
+                @pointercancel=${this._handleHoldEnd}
+                ?disabled=${readOnly}
+                title="${option.label}"
+                aria-label="${option.label}"
+              >
+                ${this._renderFaceImage(option.value, option.label, 'face-icon-small')}
+                <span>${option.label}</span>
+              </button>
+            `
+          )}
+        </div>
+        ${this._renderFaceMismatch(device)}
+      </div>
+    `;
+  }
+
+  /**
+   * Render a notice when the device's faces differ from the faces bundled with the card
+   * @param device - The device to check
+   * @returns Template result for the notice, or an empty template
+   */
+  private _renderFaceMismatch(device: RemiDeviceView): TemplateResult {
+    const mismatch = this._getFaceMismatch(device);
+    if (!mismatch) return html``;
+
+    const lang = this._getLanguage();
+    const list = (faces: string[]): string => faces.map((face) => this._getFaceLabel(face)).join(', ');
+    const messages = [
+      mismatch.unknown.length ? localize('face_check.unknown', lang).replace('{faces}', list(mismatch.unknown)) : '',
+      mismatch.missing.length ? localize('face_check.missing', lang).replace('{faces}', list(mismatch.missing)) : '',
+    ];
+
+    return html`
+      <div class="face-notice">
+        <ha-icon icon="mdi:information-outline"></ha-icon>
+        <span>${messages.filter((message) => message).join(' ')}</span>
+      </div>
+    `;
+  }
+
+  /**
+   * Render the temperature history graph
+   * Clicking the graph opens the entity's more-info dialog
+   * @param device - The device to render
+   * @returns Template result for the temperature section
+   */
+  private _renderTemperatureGraph(device: RemiDeviceView): TemplateResult {
+    const tempEntity = device.entities.temperature;
+    if (!tempEntity) return html``;
+
+    const lang = this._getLanguage();
+    const tempValue = this._getTemperatureValue(device);
+    const comfort = this._getComfortRange(device);
+
+    return html`
+      <div class="section">
+        <div class="graph-header">
+          <div class="section-title">📊 ${localize('temperature.title', lang)} (${this._config.hours_to_show}h)</div>
+          ${tempValue !== null
+            ? html`<div class="graph-current ${this._getTemperatureStatus(device) || ''}">
+                ${this._formatTemperature(device, tempValue)}
+              </div>`
+            : ''}
+        </div>
+        <div
+          class="graph-container"
+          title="${this._getElementActions('temperature').tap_action?.action === 'more-info'
+            ? localize('temperature.click_for_history', lang)
+            : ''}"
+          ${actionHandler(this._getActionOptions('temperature'))}
+          @action=${(ev: CustomEvent<ActionHandlerDetail>) => this._handleElementAction(device, 'temperature', ev)}
+        >
+          <remi-temperature-graph
+            .hass=${this.hass}
+            .entityId=${tempEntity}
+            .hours=${Number(this._config.hours_to_show) || 24}
+            .comfortMin=${comfort.min}
+            .comfortMax=${comfort.max}
+            .sourceUnit=${getSensorTemperatureUnit(this.hass, tempEntity)}
+            .unit=${this._getTemperatureUnit(device)}
+            .precision=${getTemperaturePrecision(this.hass, tempEntity)}
+          ></remi-temperature-graph>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Render the sleep timeline built from the face sensor history
+   * @param device - The device to render
+   * @returns Template result for the sleep timeline section
+   */
+  private _renderSleepTimeline(device: RemiDeviceView): TemplateResult {
+    const faceEntity = device.entities.face;
+    if (!faceEntity) return html``;
+
+    const lang = this._getLanguage();
+    const period = this._config.sleep_timeline_period === 'hours' ? 'hours' : 'night';
+    const hours = Number(this._config.hours_to_show) || 24;
+    const periodLabel = period === 'night' ? localize('timeline.last_night', lang) : `${hours}h`;
+
+    return html`
+      <div class="section">
+        <div class="section-title">🌙 ${localize('timeline.title', lang)} (${periodLabel})</div>
+        <remi-sleep-timeline
+          .hass=${this.hass}
+          .entityId=${faceEntity}
+          .hours=${hours}
+          .period=${period}
+          .faces=${this._getFaces()}
+        ></remi-sleep-timeline>
+      </div>
+    `;
+  }
+
+  /**
+   * Render the weekly sleep statistics
+   * @param device - The device to render
+   * @returns Template result for the sleep statistics section
+   */
+  private _renderSleepStats(device: RemiDeviceView): TemplateResult {
+    if (!device.entities.face) return html``;
+
+    const lang = this._getLanguage();
+    const nights = this._config.sleep_stats_nights ?? 7;
+
+    return html`
+      <div class="section">
+        <div class="section-title">📅 ${localize('stats.title', lang).replace('{nights}', String(nights))}</div>
+        <remi-sleep-stats
+          .hass=${this.hass}
+          .faceEntityId=${device.entities.face}
+          .lightEntityId=${device.entities.light}
+          .nights=${nights}
+          .faces=${this._getFaces()}
+        ></remi-sleep-stats>
+      </div>
+    `;
+  }
+
+  /**
+   * Render the connectivity status section
+   * Shows WiFi connection status and signal strength
+   * @param device - The device to render
+   * @returns Template result for the connectivity section
+   */
+  private _renderConnectivity(device: RemiDeviceView): TemplateResult {
+    const connectivityState = this._getConnectivityState(device);
+    const rssiState = this._getRssiState(device);
+
+    if (!connectivityState) {
+      return html``;
+    }
+
+    const isConnected = connectivityState.state === 'on';
+    const offlineSince = this._getOfflineSince(device);
+    const rssi = rssiState ? parseFloat(rssiState.state) : NaN;
+    const signal = isConnected && !isNaN(rssi) ? this._getSignalLevel(rssi) : null;
+    const lang = this._getLanguage();
+
+    return html`
+      <div class="section">
+        <div
+          class="connectivity"
+          ${actionHandler(this._getActionOptions('connectivity'))}
+          @action=${(ev: CustomEvent<ActionHandlerDetail>) => this._handleElementAction(device, 'connectivity', ev)}
+        >
+          <div class="connectivity-item ${isConnected ? 'connected' : 'disconnected'}">
+            <ha-icon icon="${isConnected ? 'mdi:wifi' : 'mdi:wifi-off'}"></ha-icon>
+            <span>
+              ${offlineSince === null
+                ? localize('connectivity.connected', lang)
+                : localize('connectivity.offline_since', lang).replace(
+                    '{time}',
+                    formatRelativeTime(this.hass, offlineSince)
+                  )}
+            </span>
+          </div>
+          ${signal && rssiState
+            ? html`
+                <div class="connectivity-item signal ${signal.level}">
+                  <ha-icon icon="${signal.icon}"></ha-icon>
+                  <span>
+                    ${localize(`connectivity.signal_${signal.level}`, lang)} ·
+                    ${formatSensorState(this.hass, rssiState.entity_id, 'dBm')}
+                  </span>
+                </div>
+              `
+            : ''}
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Render the controls applying the same face or brightness to every device
+   * @returns Template result for the apply-to-all section
+   */
+  private _renderApplyToAll(): TemplateResult {
+    const lang = this._getLanguage();
+    const devices = this._devices;
+    const allOff = this._getBrightnessAction(devices, 0);
+    const sections = this._getSections();
+    const brightness = this._getAverageBrightness(devices);
+
+    return html`
+      <div class="section apply-all">
+        <div class="section-title">${localize('devices.apply_to_all', lang)}</div>
+        ${sections.includes('faces')
+          ? html`
+              <div class="apply-all-faces">
+                ${this._getFaceOptions(devices).map((face) => {
+                  const action = this._getFaceAction(devices, face);
+                  return html`
+                    <button
+                      class="face-btn ${this._holding === action.key ? 'holding' : ''}"
+                      @click=${() => this._handleLockedClick(action)}
+                      @pointerdown=${() => this._handleHoldStart(action)}
+                      @pointerup=${this._handleHoldEnd}
+                      @pointerleave=${this._handleHoldEnd}
+                      @pointercancel=${this._handleHoldEnd}
+                      title="${this._getFaceLabel(face)}"
+                      aria-label="${this._getFaceLabel(face)}"
+                    >
+                      ${this._renderFaceImage(face, this._getFaceLabel(face), 'face-icon-small')}
+                    </button>
+                  `;
+                })}
+              </div>
+            `
+          : ''}
+        ${sections.includes('light')
+          ? html`
+              <div class="light-slider-container">
+                <button
+                  class="light-toggle-btn off ${this._holding === allOff.key ? 'holding' : ''}"
+                  @click=${() => this._handleLockedClick(allOff)}
+                  @pointerdown=${() => this._handleHoldStart(allOff)}
+                  @pointerup=${this._handleHoldEnd}
+                  @pointerleave=${this._handleHoldEnd}
+                  @pointercancel=${this._handleHoldEnd}
+                  title="${localizeCommon('turn_off', lang)}"
+                >
+                  <ha-icon icon="mdi:lightbulb-off-outline"></ha-icon>
+                </button>
+                <div class="slider-wrapper">
+                  <input
+                    type="range"
+                    class="brightness-slider ${brightness === null ? 'inactive' : 'active'}"
+                    min="0"
+                    max="100"
+                    .value=${String(brightness ?? 0)}
+                    @change=${(e: Event) => this._handleSliderRelease(devices, e, brightness ?? 0)}
+                    ?disabled=${brightness === null}
+                  />
+                  <div class="brightness-value">
+                    ${brightness === null ? '—' : formatPercent(this.hass, brightness)}
+                  </div>
+                </div>
+              </div>
+            `
+          : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Get the average brightness of the lights that are on, for the apply-to-all slider
+   * @param devices - The devices to read
+   * @returns Average brightness percentage, 0 when every light is off, or null when no light is available
+   */
+  private _getAverageBrightness(devices: RemiDeviceView[]): number | null {
+    const levels = devices
+      .filter((device) => this._getLightState(device) && !this._isDeviceUnavailable(device))
+      .map((device) => this._getLightLevel(device));
+    if (!levels.length) return null;
+
+    const lit = levels.filter((light) => light.on).map((light) => light.brightness ?? 100);
+    return lit.length ? Math.round(lit.reduce((sum, value) => sum + value, 0) / lit.length) : 0;
+  }
+
+  /**
+   * Render the notice shown above locked controls to users who may not use them
+   * @returns Template result for the notice
+   */
+  private _renderReadOnlyNotice(): TemplateResult {
+    const sections = this._getSections();
+    if (this._canControl() || (!sections.includes('faces') && !sections.includes('light'))) {
+      return html``;
+    }
+
+    const lang = this._getLanguage();
+    const message = this._config.read_only
+      ? localize('permissions.read_only', lang)
+      : localize('permissions.not_allowed', lang);
+    return html`
+      <div class="read-only-notice">
+        <ha-icon icon="mdi:lock"></ha-icon>
+        <span>${message}</span>
+      </div>
+    `;
+  }
+
+  /**
+   * Render the health of each entity of a device, with replacements for missing ones
+   * @param device - The device to diagnose
+   * @param error - Whether the panel replaces the device because core entities are missing
+   * @returns Template result for the diagnostics panel
    */
-  private _renderHeader(): TemplateResult {
-    const faceState = this._getFaceState();
-    const lightState = this._getLightState();
-    const tempState = this._getTemperatureState();
+  private _renderDiagnostics(device: RemiDeviceView, error = false): TemplateResult {
     const lang = this._getLanguage();
-
-    const deviceName = this._config.device_name || this._config.device_id;
-    const faceImage = faceState ? getFaceIcon(faceState) : getFaceIcon('blankFace');
-    const faceName = faceState ? localizeFace(faceState, lang) : localizeCommon('unknown', lang);
-
-    let statusText = '';
-    if (tempState && tempState.state !== 'unavailable') {
-      statusText += `${tempState.state}°C`;
-    }
-    statusText += ` • ${faceName}`;
-
-    if (lightState?.state === 'on') {
-      const brightness = lightState.attributes.brightness;
-      if (brightness !== undefined) {
-        const percent = Math.round((brightness / 255) * 100);
-        statusText += ` • ${percent}%`;
-      }
-    } else {
-      statusText += ` • ${localizeCommon('off', lang)}`;
-    }
-
-    const isLightOn = lightState?.state === 'on';
+    const checks = diagnoseEntities(this.hass, device.entities);
 
     return html`
-      <div class="header ${isLightOn ? 'light-on' : ''}">
-        <div class="face-container">
-          <img src="${faceImage}" alt="${faceName}" class="face-icon" />
-        </div>
-        <div class="info">
-          <div class="title">${localizeCommon('remi', lang)} ${deviceName}</div>
-          <div class="status">${statusText}</div>
+      <div class="diagnostics ${error ? 'error' : ''}">
+        <div class="diagnostics-title">
+          <ha-icon icon="${error ? 'mdi:alert-circle' : 'mdi:stethoscope'}"></ha-icon>
+          <span>
+            ${error
+              ? localize('diagnostics.not_found', lang).replace('{device}', this._getDeviceName(device))
+              : localize('diagnostics.title', lang)}
+          </span>
         </div>
+        ${error ? html`<div class="diagnostics-hint">${localize('diagnostics.not_found_hint', lang)}</div>` : ''}
+        ${checks.map((check) => this._renderDiagnostic(check))}
       </div>
     `;
   }
 
   /**
-   * Render the night light controls with brightness slider
-   * @returns Template result for the light control section
+   * Render the health of one entity slot
+   * @param check - The slot's diagnostic
+   * @returns Template result for the diagnostic row
    */
-  private _renderLightControls(): TemplateResult {
-    const lightState = this._getLightState();
-    const isOn = lightState?.state === 'on';
+  private _renderDiagnostic(check: EntityDiagnostic): TemplateResult {
     const lang = this._getLanguage();
-    // Keep the brightness value even when light is off
-    const currentBrightness = lightState?.attributes.brightness
-      ? Math.round((lightState.attributes.brightness / 255) * 100)
-      : 50; // Default to 50% if no brightness attribute exists
+    const icons = { ok: 'mdi:check-circle', unavailable: 'mdi:alert', missing: 'mdi:close-circle' };
 
     return html`
-      <div class="section">
-        <div class="light-slider-container">
-          <button
-            class="light-toggle-btn ${isOn ? 'on' : 'off'}"
-            @click=${() => this._handleLightControl(isOn ? 0 : currentBrightness)}
-            title="${isOn ? localizeCommon('turn_off', lang) : localizeCommon('turn_on', lang)}"
-          >
-            <ha-icon icon="${isOn ? 'mdi:lightbulb' : 'mdi:lightbulb-outline'}"></ha-icon>
-          </button>
-          <div class="slider-wrapper">
-            <input
-              type="range"
-              class="brightness-slider ${isOn ? 'active' : 'inactive'}"
-              min="0"
-              max="100"
-              .value=${currentBrightness.toString()}
-              @input=${(e: Event) => this._handleSliderChange(e)}
-              @change=${(e: Event) => this._handleSliderRelease(e)}
-              ?disabled=${!isOn}
-            />
-            <div class="brightness-value">${currentBrightness}%</div>
+      <div class="diagnostic ${check.status}">
+        <ha-icon icon="${icons[check.status]}"></ha-icon>
+        <div class="diagnostic-info">
+          <div class="diagnostic-slot">
+            ${localize(`editor.entity.${check.slot.configKey}`, lang)} ·
+            ${localize(`diagnostics.status_${check.status}`, lang)}
           </div>
+          <code>${check.entityId || localize('diagnostics.not_resolved', lang)}</code>
+          ${check.suggestions.length
+            ? html`
+                <div class="diagnostic-suggestions">
+                  ${localize('diagnostics.suggestions', lang)}
+                  ${check.suggestions.map((suggestion) => html`<code>${suggestion}</code>`)}
+                </div>
+              `
+            : ''}
         </div>
       </div>
     `;
   }
 
   /**
-   * Render the face selector buttons
-   * @returns Template result for the face selector section
+   * Render one section of a device
+   * @param device - The device to render
+   * @param section - The section
+   * @returns Template result for the section
    */
-  private _renderFaceSelector(): TemplateResult {
-    const faceSelectEntity = this._getFaceSelectState();
-    if (!faceSelectEntity) return html``;
+  private _renderSection(device: RemiDeviceView, section: CardSection): TemplateResult {
+    switch (section) {
+      case 'header':
+        return this._renderHeader(device);
+      case 'faces':
+        return this._renderFaceSelector(device);
+      case 'light':
+        return this._renderLightControls(device);
+      case 'temperature':
+        return this._renderTemperatureGraph(device);
+      case 'timeline':
+        return this._renderSleepTimeline(device);
+      case 'stats':
+        return this._renderSleepStats(device);
+      case 'connectivity':
+        return this._renderConnectivity(device);
+    }
+  }
 
-    const currentFace = faceSelectEntity.state;
-    const lang = this._getLanguage();
+  /**
+   * Render the configured sections of a single device
+   * Banners and notices follow the header, or open the card when the header is hidden
+   * @param device - The device to render
+   * @param inGrid - Only render the header and controls, for the device grid
+   * @returns Template result for the device's sections
+   */
+  private _renderDevice(device: RemiDeviceView, inGrid = false): TemplateResult {
+    if (this._hasMissingCoreEntities(device)) {
+      return this._renderDiagnostics(device, true);
+    }
 
-    const faceOptions = FACE_STATES.map((face) => ({
-      value: face,
-      icon: getFaceIcon(face),
-      label: localizeFace(face, lang),
-    }));
+    const sections = this._getSections().filter((section) => !inGrid || CONTROL_SECTIONS.includes(section));
+    const notices = html`
+      ${this._diagnosticsDevice === device.config.device_id ? this._renderDiagnostics(device) : ''}
+      ${this._renderOfflineBanner(device)}
+      ${this._renderTemperatureWarning(device)}
+      ${this._renderReadOnlyNotice()}
+    `;
+    const leadingNotices = sections.includes('header') ? '' : notices;
+    const renderSections = (list: CardSection[]): TemplateResult[] =>
+      list.map((section) =>
+        section === 'header' ? html`${this._renderHeader(device)}${notices}` : this._renderSection(device, section)
+      );
+
+    if (!inGrid && this._config.layout === 'horizontal') {
+      return html`
+        <div class="horizontal-layout">
+          <div class="column">
+            ${leadingNotices}${renderSections(sections.filter((section) => CONTROL_SECTIONS.includes(section)))}
+          </div>
+          <div class="column">
+            ${renderSections(sections.filter((section) => !CONTROL_SECTIONS.includes(section)))}
+          </div>
+        </div>
+      `;
+    }
+
+    return html`${leadingNotices}${renderSections(sections)}`;
+  }
+
+  /**
+   * Render a device as a single row: face, name with face and temperature, and light toggle
+   * @param device - The device to render
+   * @returns Template result for the compact row
+   */
+  private _renderCompact(device: RemiDeviceView): TemplateResult {
+    if (this._hasMissingCoreEntities(device)) {
+      return this._renderDiagnostics(device, true);
+    }
+
+    const lang = this._getLanguage();
+    const unavailable = this._isDeviceUnavailable(device);
+    const faceState = unavailable ? 'blankFace' : this._getFaceState(device);
+    const faceName = faceState ? this._getFaceLabel(faceState) : localizeCommon('unknown', lang);
+    const light = this._getLightLevel(device);
+    const isOn = light.on && !unavailable;
+    const toggle = this._getBrightnessAction([device], isOn ? 0 : this._getTurnOnBrightness(device));
+    const tempValue = this._getTemperatureValue(device);
+    const tempStatus = this._getTemperatureStatus(device);
+    const offline = !unavailable && this._getOfflineSince(device) !== null;
 
     return html`
-      <div class="section">
-        <div class="face-selector">
-          ${faceOptions.map(
-            (option) => html`
+      <div class="compact-row ${unavailable ? 'unavailable' : ''}">
+        <div
+          class="face-container"
+          ${actionHandler(this._getActionOptions('face_icon'))}
+          @action=${(ev: CustomEvent<ActionHandlerDetail>) => this._handleElementAction(device, 'face_icon', ev)}
+        >
+          ${this._renderFaceImage(faceState, faceName, 'face-icon-small')}
+        </div>
+        <div
+          class="compact-info"
+          ${actionHandler(this._getActionOptions('header'))}
+          @action=${(ev: CustomEvent<ActionHandlerDetail>) => this._handleElementAction(device, 'header', ev)}
+        >
+          <div class="compact-name">${this._getDeviceName(device)}</div>
+          <div class="compact-status">
+            ${offline ? html`<ha-icon class="compact-offline" icon="mdi:cloud-off-outline"></ha-icon>` : ''}
+            ${unavailable ? localizeCommon('unavailable', lang) : faceName}
+            ${tempValue !== null
+              ? html` •
+                  <span
+                    class="temperature ${tempStatus || ''}"
+                    ${actionHandler(this._getActionOptions('temperature'))}
+                    @action=${(ev: CustomEvent<ActionHandlerDetail>) =>
+                      this._handleElementAction(device, 'temperature', ev)}
+                    >${this._formatTemperature(device, tempValue)}</span
+                  >`
+              : ''}
+          </div>
+        </div>
+        ${device.entities.light
+          ? html`
               <button
-                class="face-btn ${currentFace === option.value ? 'active' : ''}"
-                @click=${() => this._handleFaceSelect(option.value)}
-                title="${option.label}"
+                class="light-toggle-btn ${isOn ? 'on' : 'off'} ${this._holding === toggle.key ? 'holding' : ''}"
+                @click=${() => this._handleLockedClick(toggle)}
+                @pointerdown=${() => this._handleHoldStart(toggle)}
+                @pointerup=${this._handleHoldEnd}
+                @pointerleave=${this._handleHoldEnd}
+                @pointercancel=${this._handleHoldEnd}
+                ?disabled=${!this._canControl() || unavailable}
+                title="${isOn ? localizeCommon('turn_off', lang) : localizeCommon('turn_on', lang)}"
               >
-                <img src="${option.icon}" alt="${option.label}" class="face-icon-small" />
-                <span>${option.label}</span>
+                <ha-icon icon="${isOn ? 'mdi:lightbulb' : 'mdi:lightbulb-outline'}"></ha-icon>
               </button>
             `
-          )}
-        </div>
+          : ''}
       </div>
     `;
   }
 
   /**
-   * Render the temperature graph placeholder
-   * Clicking opens the entity's history dialog
-   * @returns Template result for the temperature section
+   * Render several devices as tabs or as a compact grid
+   * @returns Template result for the multi-device layout
    */
-  private _renderTemperatureGraph(): TemplateResult {
-    const tempEntity = this._entities.temperature;
-    if (!tempEntity) return html``;
-
-    const lang = this._getLanguage();
-    const tempState = this._getState(tempEntity);
+  private _renderDevices(): TemplateResult {
+    if (this._config.devices_layout === 'tabs') {
+      const active = this._devices[this._activeDevice] || this._devices[0];
+      return html`
+        <div class="device-tabs">
+          ${this._devices.map(
+            (device, index) => html`
+              <button
+                class="device-tab ${device === active ? 'active' : ''}"
+                @click=${() => (this._activeDevice = index)}
+              >
+                ${this._getDeviceName(device)}
+              </button>
+            `
+          )}
+        </div>
+        ${this._renderDevice(active)}
+        ${this._canControl() ? this._renderApplyToAll() : ''}
+      `;
+    }
 
     return html`
-      <div class="section">
-        <div class="section-title">📊 ${localize('temperature.title', lang)} (${this._config.hours_to_show}h)</div>
-        <div class="graph-placeholder" @click=${() => this._handleMoreInfo(tempEntity)}>
-          <div class="entity-state">${tempState?.state}°C</div>
-          <div class="entity-info">${localize('temperature.click_for_history', lang)}</div>
-        </div>
+      <div class="device-grid">
+        ${this._devices.map((device) => html`<div class="device">${this._renderDevice(device, true)}</div>`)}
       </div>
+      ${this._canControl() ? this._renderApplyToAll() : ''}
     `;
   }
 
   /**
-   * Render the connectivity status section
-   * Shows WiFi connection status and signal strength
-   * @returns Template result for the connectivity section
+   * Render the confirmation asked for a locked action
+   * @returns Template result for the confirmation bar
    */
-  private _renderConnectivity(): TemplateResult {
-    const connectivityState = this._getConnectivityState();
-    const rssiState = this._getRssiState();
-
-    if (!connectivityState || connectivityState.state === 'unavailable') {
-      return html``;
-    }
+  private _renderConfirmation(): TemplateResult {
+    if (!this._confirmation) return html``;
 
-    const isConnected = connectivityState.state === 'on';
     const lang = this._getLanguage();
-
     return html`
-      <div class="section">
-        <div class="connectivity">
-          <div class="connectivity-item ${isConnected ? 'connected' : 'disconnected'}">
-            <ha-icon icon="mdi:wifi"></ha-icon>
-            <span>${localize(`connectivity.${isConnected ? 'connected' : 'disconnected'}`, lang)}</span>
-          </div>
-          ${rssiState && rssiState.state !== 'unavailable'
-            ? html`
-                <div class="connectivity-item">
-                  <ha-icon icon="mdi:wifi-strength-3"></ha-icon>
-                  <span>${rssiState.state} dBm</span>
-                </div>
-              `
-            : ''}
-        </div>
+      <div class="confirm-bar">
+        <ha-icon icon="mdi:lock-alert-outline"></ha-icon>
+        <span class="confirm-message">${this._confirmation.message}</span>
+        <button class="timer-chip" @click=${() => this._handleConfirmation(false)}>
+          ${localize('lock.cancel', lang)}
+        </button>
+        <button class="timer-chip confirm" @click=${() => this._handleConfirmation(true)}>
+          ${localize('lock.confirm', lang)}
+        </button>
       </div>
     `;
   }
@@ -586,17 +2450,22 @@ export class RemiCard extends LitElement {
    * @returns Template result for the entire card
    */
   protected render(): TemplateResult {
-    if (!this._config || !this.hass) {
+    if (!this._config || !this.hass || !this._devices.length) {
       return html``;
     }
 
+    const layout = this._config.layout || 'full';
+    let content: TemplateResult | TemplateResult[];
+    if (layout === 'compact') {
+      content = this._devices.map((device) => this._renderCompact(device));
+    } else {
+      content = this._config.devices ? this._renderDevices() : this._renderDevice(this._devices[0]);
+    }
+
     return html`
-      <ha-card>
-        ${this._renderHeader()}
-        ${this._config.show_face_selector ? this._renderFaceSelector() : ''}
-        ${this._config.show_controls ? this._renderLightControls() : ''}
-        ${this._config.show_temperature_graph ? this._renderTemperatureGraph() : ''}
-        ${this._config.show_connectivity ? this._renderConnectivity() : ''}
+      <ha-card class="layout-${layout}" dir=${computeRTLDirection(this.hass)}>
+        ${this._renderConfirmation()}
+        ${content}
       </ha-card>
     `;
   }
@@ -605,16 +2474,80 @@ export class RemiCard extends LitElement {
     return css`
       :host {
         display: block;
+        container-type: inline-size;
+        container-name: remi-card;
       }
 
       ha-card {
         padding: 16px;
       }
 
+      ha-card.layout-compact {
+        padding: 8px 12px;
+      }
+
+      .compact-row {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        min-height: 40px;
+      }
+
+      .compact-row + .compact-row {
+        margin-top: 8px;
+        padding-top: 8px;
+        border-top: 1px solid var(--divider-color);
+      }
+
+      .compact-row.unavailable .face-container {
+        filter: grayscale(1);
+        opacity: 0.6;
+      }
+
+      .compact-info {
+        flex: 1;
+        min-width: 0;
+        display: flex;
+        flex-direction: column;
+      }
+
+      .compact-name {
+        font-weight: 500;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      .compact-status {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        font-size: 0.85em;
+        color: var(--secondary-text-color);
+        white-space: nowrap;
+      }
+
+      .compact-offline {
+        --mdc-icon-size: 14px;
+        color: var(--warning-color, #ff9800);
+      }
+
+      .compact-row .light-toggle-btn {
+        width: 40px;
+        height: 40px;
+      }
+
+      .horizontal-layout {
+        display: grid;
+        grid-template-columns: minmax(0, 1fr) minmax(0, 1.4fr);
+        gap: 16px;
+        align-items: start;
+      }
+
       .header {
         display: grid;
-        grid-template-areas: 'face info';
-        grid-template-columns: 60px 1fr;
+        grid-template-areas: 'face info tools';
+        grid-template-columns: 60px 1fr auto;
         gap: 12px;
         padding: 12px;
         border-radius: 8px;
@@ -629,6 +2562,55 @@ export class RemiCard extends LitElement {
         border: 2px solid var(--amber-color, #ffc107);
       }
 
+      .header.temp-cold {
+        border-color: var(--info-color, #039be5);
+      }
+
+      .header.temp-hot {
+        border-color: var(--error-color, #f44336);
+      }
+
+      .temperature.cold,
+      .graph-current.cold {
+        color: var(--info-color, #039be5);
+      }
+
+      .temperature.comfortable,
+      .graph-current.comfortable {
+        color: var(--success-color, #4caf50);
+      }
+
+      .temperature.hot,
+      .graph-current.hot {
+        color: var(--error-color, #f44336);
+      }
+
+      .warning-banner {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 8px 12px;
+        margin-bottom: 16px;
+        border-radius: 8px;
+        font-size: 0.9em;
+      }
+
+      .warning-banner.cold {
+        background: rgba(3, 155, 229, 0.15);
+        color: var(--info-color, #039be5);
+      }
+
+      .warning-banner.hot {
+        background: rgba(244, 67, 54, 0.15);
+        color: var(--error-color, #f44336);
+      }
+
+      .warning-banner.offline {
+        background: rgba(255, 152, 0, 0.15);
+        color: var(--warning-color, #ff9800);
+        font-weight: 500;
+      }
+
       .face-container {
         grid-area: face;
         display: flex;
@@ -642,6 +2624,14 @@ export class RemiCard extends LitElement {
         object-fit: contain;
       }
 
+      ha-icon.face-icon {
+        --mdc-icon-size: 50px;
+      }
+
+      ha-icon.face-icon-small {
+        --mdc-icon-size: 36px;
+      }
+
       .info {
         grid-area: info;
         display: flex;
@@ -668,59 +2658,189 @@ export class RemiCard extends LitElement {
         margin-bottom: 0;
       }
 
-      .section-title {
-        font-weight: bold;
-        margin-bottom: 8px;
-        font-size: 1em;
+      .section.unavailable,
+      .header.unavailable .face-container {
+        filter: grayscale(1);
+        opacity: 0.6;
+      }
+
+      .section-title {
+        font-weight: bold;
+        margin-bottom: 8px;
+        font-size: 1em;
+      }
+
+      .light-slider-container {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        padding: 8px;
+        border-radius: 8px;
+        background: var(--secondary-background-color);
+      }
+
+      .light-toggle-btn {
+        flex-shrink: 0;
+        width: 44px;
+        height: 44px;
+        border-radius: 50%;
+        border: 2px solid var(--divider-color);
+        background: var(--card-background-color);
+        cursor: pointer;
+        transition: all 0.2s ease;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+      }
+
+      .light-toggle-btn.on {
+        background: rgba(var(--rgb-amber), 0.2);
+        border-color: var(--amber-color, #ffc107);
+      }
+
+      .light-toggle-btn.on ha-icon {
+        color: var(--amber-color, #ffc107);
+      }
+
+      .light-toggle-btn.off ha-icon {
+        color: var(--secondary-text-color);
+      }
+
+      .light-toggle-btn:hover {
+        transform: scale(1.1);
+        box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+      }
+
+      .light-toggle-btn:active {
+        transform: scale(1.0);
+      }
+
+      .light-toggle-btn ha-icon {
+        --mdc-icon-size: 28px;
+      }
+
+      .timer-btn {
+        flex-shrink: 0;
+        width: 36px;
+        height: 36px;
+        border-radius: 50%;
+        border: none;
+        background: none;
+        color: var(--secondary-text-color);
+        cursor: pointer;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+      }
+
+      .timer-btn.active {
+        color: var(--primary-color);
+        background: rgba(var(--rgb-primary-color), 0.1);
+      }
+
+      .timer-row {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 8px;
+        margin-top: 8px;
+      }
+
+      .timer-row ha-icon {
+        --mdc-icon-size: 20px;
+        color: var(--amber-color, #ffc107);
+      }
+
+      .timer-label {
+        flex: 1;
+        font-variant-numeric: tabular-nums;
+      }
+
+      .timer-hint {
+        margin-top: 4px;
+        color: var(--secondary-text-color);
+        font-size: 0.8em;
+      }
+
+      .timer-chip {
+        padding: 6px 12px;
+        border: 1px solid var(--divider-color);
+        border-radius: 16px;
+        background: var(--card-background-color);
+        color: var(--primary-text-color);
+        font: inherit;
+        font-size: 0.85em;
+        cursor: pointer;
+      }
+
+      .timer-chip:hover {
+        background: var(--secondary-background-color);
       }
 
-      .light-slider-container {
+      .confirm-bar {
         display: flex;
         align-items: center;
-        gap: 12px;
-        padding: 8px;
+        gap: 8px;
+        padding: 8px 12px;
+        margin-bottom: 16px;
         border-radius: 8px;
-        background: var(--secondary-background-color);
+        background: rgba(var(--rgb-primary-color), 0.1);
+        border: 1px solid var(--primary-color);
       }
 
-      .light-toggle-btn {
-        flex-shrink: 0;
-        width: 44px;
-        height: 44px;
-        border-radius: 50%;
-        border: 2px solid var(--divider-color);
-        background: var(--card-background-color);
-        cursor: pointer;
-        transition: all 0.2s ease;
-        display: flex;
-        align-items: center;
-        justify-content: center;
+      .confirm-bar ha-icon {
+        color: var(--primary-color);
       }
 
-      .light-toggle-btn.on {
-        background: rgba(var(--rgb-amber), 0.2);
-        border-color: var(--amber-color, #ffc107);
+      .confirm-message {
+        flex: 1;
       }
 
-      .light-toggle-btn.on ha-icon {
-        color: var(--amber-color, #ffc107);
+      .timer-chip.confirm {
+        border-color: var(--primary-color);
+        background: var(--primary-color);
+        color: var(--text-primary-color, #fff);
       }
 
-      .light-toggle-btn.off ha-icon {
-        color: var(--secondary-text-color);
+      .face-btn,
+      .light-toggle-btn {
+        position: relative;
+        overflow: hidden;
+        user-select: none;
+        -webkit-touch-callout: none;
       }
 
-      .light-toggle-btn:hover {
-        transform: scale(1.1);
-        box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+      .face-btn::after,
+      .light-toggle-btn::after {
+        content: '';
+        position: absolute;
+        inset-inline-start: 0;
+        bottom: 0;
+        width: 0;
+        height: 100%;
+        background: rgba(var(--rgb-primary-color), 0.2);
+        pointer-events: none;
       }
 
-      .light-toggle-btn:active {
-        transform: scale(1.0);
+      .face-btn.holding::after,
+      .light-toggle-btn.holding::after {
+        width: 100%;
+        transition: width 1.5s linear;
       }
 
-      .light-toggle-btn ha-icon {
-        --mdc-icon-size: 28px;
+      .timer-input {
+        width: 56px;
+        padding: 6px;
+        border: 1px solid var(--divider-color);
+        border-radius: 8px;
+        background: var(--card-background-color);
+        color: var(--primary-text-color);
+        font: inherit;
+        font-size: 0.85em;
+      }
+
+      .timer-input.time {
+        width: auto;
       }
 
       .slider-wrapper {
@@ -759,6 +2879,21 @@ export class RemiCard extends LitElement {
         border-radius: 3px;
       }
 
+      /* Range inputs run right to left in RTL, so the track gradient follows */
+      ha-card[dir='rtl'] .brightness-slider::-webkit-slider-track {
+        background: linear-gradient(to left,
+          var(--divider-color) 0%,
+          rgba(var(--rgb-amber), 0.3) 50%,
+          var(--amber-color, #ffc107) 100%);
+      }
+
+      ha-card[dir='rtl'] .brightness-slider::-moz-range-track {
+        background: linear-gradient(to left,
+          var(--divider-color) 0%,
+          rgba(var(--rgb-amber), 0.3) 50%,
+          var(--amber-color, #ffc107) 100%);
+      }
+
       .brightness-slider::-webkit-slider-thumb {
         -webkit-appearance: none;
         appearance: none;
@@ -810,7 +2945,7 @@ export class RemiCard extends LitElement {
 
       .brightness-value {
         min-width: 45px;
-        text-align: right;
+        text-align: end;
         font-weight: 600;
         font-size: 0.95em;
         color: var(--primary-text-color);
@@ -818,7 +2953,7 @@ export class RemiCard extends LitElement {
 
       .face-selector {
         display: grid;
-        grid-template-columns: repeat(5, 1fr);
+        grid-template-columns: repeat(var(--face-count, 5), 1fr);
         gap: 8px;
       }
 
@@ -840,6 +2975,139 @@ export class RemiCard extends LitElement {
         box-shadow: 0 2px 8px rgba(0, 0, 0, 0.1);
       }
 
+      .face-btn:disabled,
+      .light-toggle-btn:disabled {
+        cursor: not-allowed;
+        opacity: 0.5;
+        transform: none;
+        box-shadow: none;
+      }
+
+      .face-notice {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin-top: 8px;
+        color: var(--secondary-text-color);
+        font-size: 0.8em;
+      }
+
+      .face-notice ha-icon {
+        --mdc-icon-size: 16px;
+        flex-shrink: 0;
+      }
+
+      .diagnostics-btn {
+        grid-area: tools;
+        align-self: start;
+        padding: 4px;
+        border: none;
+        border-radius: 50%;
+        background: none;
+        color: var(--secondary-text-color);
+        cursor: pointer;
+        opacity: 0.5;
+      }
+
+      .diagnostics-btn:hover {
+        opacity: 1;
+      }
+
+      .diagnostics-btn.issues {
+        color: var(--warning-color, #ff9800);
+        opacity: 1;
+      }
+
+      .diagnostics-btn ha-icon {
+        --mdc-icon-size: 18px;
+      }
+
+      .diagnostics {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        padding: 12px;
+        margin-bottom: 16px;
+        border-radius: 8px;
+        background: rgba(var(--rgb-grey), 0.1);
+        font-size: 0.9em;
+      }
+
+      .diagnostics.error {
+        margin-bottom: 0;
+        background: rgba(244, 67, 54, 0.1);
+      }
+
+      .diagnostics-title {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        font-weight: 500;
+      }
+
+      .diagnostics.error .diagnostics-title {
+        color: var(--error-color, #f44336);
+      }
+
+      .diagnostics-hint {
+        color: var(--secondary-text-color);
+      }
+
+      .diagnostic {
+        display: flex;
+        align-items: flex-start;
+        gap: 8px;
+      }
+
+      .diagnostic ha-icon {
+        --mdc-icon-size: 18px;
+        flex-shrink: 0;
+      }
+
+      .diagnostic.ok ha-icon {
+        color: var(--success-color, #4caf50);
+      }
+
+      .diagnostic.unavailable ha-icon {
+        color: var(--warning-color, #ff9800);
+      }
+
+      .diagnostic.missing ha-icon {
+        color: var(--error-color, #f44336);
+      }
+
+      .diagnostic-info {
+        display: flex;
+        flex-direction: column;
+        gap: 2px;
+        min-width: 0;
+      }
+
+      .diagnostic-info code {
+        overflow-wrap: anywhere;
+        font-size: 0.9em;
+      }
+
+      .diagnostic-suggestions {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 4px 8px;
+        color: var(--secondary-text-color);
+      }
+
+      .read-only-notice {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin-bottom: 12px;
+        color: var(--secondary-text-color);
+        font-size: 0.9em;
+      }
+
+      .read-only-notice ha-icon {
+        --mdc-icon-size: 18px;
+      }
+
       .face-btn:active {
         transform: translateY(0);
       }
@@ -849,6 +3117,20 @@ export class RemiCard extends LitElement {
         background: rgba(var(--rgb-primary-color), 0.1);
       }
 
+      .face-btn.pending,
+      .light-slider-container.pending .brightness-value {
+        animation: pending-pulse 1s ease-in-out infinite alternate;
+      }
+
+      @keyframes pending-pulse {
+        from {
+          opacity: 1;
+        }
+        to {
+          opacity: 0.4;
+        }
+      }
+
       .face-icon-small {
         width: 36px;
         height: 36px;
@@ -862,43 +3144,105 @@ export class RemiCard extends LitElement {
         line-height: 1.2;
       }
 
-      @media (max-width: 600px) {
-        .face-selector {
-          grid-template-columns: repeat(3, 1fr);
-        }
 
-        .face-btn {
-          padding: 8px 4px;
-        }
+      .graph-header {
+        display: flex;
+        align-items: baseline;
+        justify-content: space-between;
+        gap: 8px;
+      }
 
-        .face-icon-small {
-          width: 30px;
-          height: 30px;
-        }
+      .graph-current {
+        font-size: 1.2em;
+        font-weight: bold;
       }
 
-      .graph-placeholder {
-        padding: 24px;
+      .graph-container {
+        padding: 8px;
         border: 1px solid var(--divider-color);
         border-radius: 8px;
-        text-align: center;
-        cursor: pointer;
         transition: background 0.15s ease;
       }
 
-      .graph-placeholder:hover {
+      .graph-container[actionable]:hover {
         background: var(--secondary-background-color);
       }
 
-      .entity-state {
-        font-size: 2em;
-        font-weight: bold;
+      [actionable] {
+        cursor: pointer;
+      }
+
+      .device-grid {
+        display: grid;
+        grid-template-columns: repeat(auto-fit, minmax(260px, 1fr));
+        gap: 16px;
+        margin-bottom: 16px;
+      }
+
+      .device {
+        padding: 8px;
+        border: 1px solid var(--divider-color);
+        border-radius: 8px;
+      }
+
+      .device .header {
+        margin-bottom: 8px;
+      }
+
+      .device .section {
         margin-bottom: 8px;
       }
 
-      .entity-info {
+      .device .face-selector {
+        grid-template-columns: repeat(var(--face-count, 5), 1fr);
+        gap: 4px;
+      }
+
+      .device .face-btn {
+        padding: 4px;
+      }
+
+      .device .face-btn span {
+        display: none;
+      }
+
+      .device-tabs {
+        display: flex;
+        gap: 4px;
+        margin-bottom: 16px;
+        border-bottom: 1px solid var(--divider-color);
+      }
+
+      .device-tab {
+        padding: 8px 16px;
+        border: none;
+        border-bottom: 2px solid transparent;
+        background: none;
         color: var(--secondary-text-color);
-        font-size: 0.9em;
+        font: inherit;
+        cursor: pointer;
+      }
+
+      .device-tab.active {
+        border-bottom-color: var(--primary-color);
+        color: var(--primary-text-color);
+        font-weight: 600;
+      }
+
+      .apply-all {
+        padding-top: 16px;
+        border-top: 1px solid var(--divider-color);
+      }
+
+      .apply-all-faces {
+        display: flex;
+        gap: 8px;
+        margin-bottom: 8px;
+      }
+
+      .apply-all-faces .face-btn {
+        flex: 1;
+        padding: 4px;
       }
 
       .connectivity {
@@ -927,6 +3271,92 @@ export class RemiCard extends LitElement {
       .connectivity-item ha-icon {
         --mdc-icon-size: 20px;
       }
+
+      .connectivity-item.signal.excellent ha-icon {
+        color: var(--success-color, #4caf50);
+      }
+
+      .connectivity-item.signal.good ha-icon {
+        color: #8bc34a;
+      }
+
+      .connectivity-item.signal.fair ha-icon {
+        color: var(--warning-color, #ff9800);
+      }
+
+      .connectivity-item.signal.weak ha-icon {
+        color: var(--error-color, #f44336);
+      }
+
+      /* Breakpoints follow the card's own width, not the viewport, so a card in a narrow
+         column or a wide panel adapts the same way on any screen */
+      @container remi-card (max-width: 560px) {
+        .horizontal-layout {
+          grid-template-columns: minmax(0, 1fr);
+        }
+      }
+
+      @container remi-card (max-width: 400px) {
+        .header {
+          grid-template-columns: 44px 1fr auto;
+          gap: 8px;
+          padding: 8px;
+        }
+
+        .face-icon {
+          width: 36px;
+          height: 36px;
+        }
+
+        ha-icon.face-icon {
+          --mdc-icon-size: 36px;
+        }
+
+        .title {
+          font-size: 1em;
+        }
+
+        .status {
+          font-size: 0.8em;
+        }
+
+        .face-selector {
+          gap: 4px;
+        }
+
+        .face-btn {
+          padding: 6px 2px;
+        }
+
+        .face-btn span {
+          display: none;
+        }
+
+        .face-icon-small {
+          width: 30px;
+          height: 30px;
+        }
+
+        ha-icon.face-icon-small {
+          --mdc-icon-size: 30px;
+        }
+
+        .connectivity {
+          flex-direction: column;
+          gap: 8px;
+        }
+      }
+
+      @container remi-card (max-width: 280px) {
+        .light-slider-container {
+          flex-wrap: wrap;
+        }
+
+        .slider-wrapper {
+          flex-basis: 100%;
+          order: 1;
+        }
+      }
     `;
   }
 }
@@ -0,0 +1,367 @@
+/**
+ * Sleep statistics for the Rémi Card
+ * Computes per-night statistics from the face and night light history and shows them as a table
+ */
+
+import { LitElement, html, css, PropertyValues, TemplateResult } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { HomeAssistant } from 'custom-card-helpers';
+import { fetchHistory, HistoryState } from './history';
+import { getNightWindow, NightWindow } from './nights';
+import { FACE_STATES, FaceConfig, getFaceColor, getFaceLabel } from './face-images';
+import { localize } from './localize';
+
+/**
+ * Statistics of a single night
+ */
+export interface NightStats {
+  night: NightWindow;
+  bedtime: number | null;
+  wakeTime: number | null;
+  faceDurations: Record<string, number>;
+  lightOnCount: number;
+}
+
+/**
+ * Face shown when the child should be sleeping
+ */
+const SLEEP_FACE = 'sleepyFace';
+
+/**
+ * Face shown when the child may get up
+ */
+const AWAKE_FACE = 'awakeFace';
+
+/**
+ * Get the states of an entity clipped to a night, as continuous segments
+ * @param history - The entity's history, sorted by time
+ * @param night - The night window
+ * @returns Segments with their state, start and end
+ */
+function getNightSegments(
+  history: HistoryState[],
+  night: NightWindow
+): { state: string; start: number; end: number }[] {
+  return history
+    .map((entry, index) => ({
+      state: entry.state,
+      start: Math.max(entry.time, night.start),
+      end: Math.min(history[index + 1]?.time ?? night.end, night.end),
+    }))
+    .filter((segment) => segment.end > segment.start);
+}
+
+/**
+ * Compute the statistics of a night
+ * @param night - The night window
+ * @param faceHistory - History of the face sensor
+ * @param lightHistory - History of the night light
+ * @returns The night's statistics
+ */
+export function computeNightStats(
+  night: NightWindow,
+  faceHistory: HistoryState[],
+  lightHistory: HistoryState[]
+): NightStats {
+  // Gaps while the sensor was unavailable are not a face the child saw
+  const faceSegments = getNightSegments(faceHistory, night).filter(
+    (segment) => segment.state !== 'unavailable' && segment.state !== 'unknown'
+  );
+
+  const faceDurations: Record<string, number> = {};
+  for (const segment of faceSegments) {
+    faceDurations[segment.state] = (faceDurations[segment.state] || 0) + segment.end - segment.start;
+  }
+
+  const bedtime = faceSegments.find((segment) => segment.state === SLEEP_FACE)?.start ?? null;
+  const wakeTime =
+    faceSegments.find((segment) => segment.state === AWAKE_FACE && (bedtime === null || segment.start > bedtime))
+      ?.start ?? null;
+
+  const lightSegments = getNightSegments(lightHistory, night);
+  const lightOnCount = lightSegments.filter(
+    (segment, index) => segment.state === 'on' && segment.start > night.start && lightSegments[index - 1]?.state !== 'on'
+  ).length;
+
+  return { night, bedtime, wakeTime, faceDurations, lightOnCount };
+}
+
+/**
+ * Average a list of values, ignoring missing ones
+ * @param values - The values to average
+ * @returns The average, or null if no value is present
+ */
+function average(values: (number | null)[]): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  if (!present.length) return null;
+  return present.reduce((sum, value) => sum + value, 0) / present.length;
+}
+
+/**
+ * Table of per-night sleep statistics with averages
+ */
+@customElement('remi-sleep-stats')
+export class RemiSleepStats extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property({ attribute: false }) public faceEntityId: string | null = null;
+  @property({ attribute: false }) public lightEntityId: string | null = null;
+  @property({ type: Number }) public nights = 7;
+  @property({ attribute: false }) public faces: FaceConfig[] = [];
+  @state() private _stats: NightStats[] | null = null;
+
+  /**
+   * Request counter used to ignore outdated responses
+   */
+  private _request = 0;
+
+  /**
+   * Skip renders triggered only by unrelated hass updates
+   * @param changedProps - Map of changed properties
+   * @returns True if the panel should re-render
+   */
+  protected shouldUpdate(changedProps: PropertyValues): boolean {
+    if (changedProps.size === 1 && changedProps.has('hass')) {
+      const oldHass = changedProps.get('hass') as HomeAssistant | undefined;
+      return !oldHass || oldHass.locale !== this.hass.locale;
+    }
+    return true;
+  }
+
+  /**
+   * Lifecycle method called after the element updates
+   * Reloads the statistics when the entities or the number of nights change
+   * @param changedProps - Map of changed properties
+   */
+  protected updated(changedProps: PropertyValues): void {
+    super.updated(changedProps);
+    const needsReload =
+      changedProps.has('faceEntityId') ||
+      changedProps.has('lightEntityId') ||
+      changedProps.has('nights') ||
+      (changedProps.has('hass') && !changedProps.get('hass'));
+
+    if (needsReload && this.hass && this.faceEntityId) {
+      this._loadStats();
+    }
+  }
+
+  /**
+   * Fetch the history of the last completed nights and compute their statistics
+   */
+  private async _loadStats(): Promise<void> {
+    const request = ++this._request;
+    this._stats = null;
+
+    const now = Date.now();
+    const windows: NightWindow[] = [];
+    for (let nightsAgo = 0; windows.length < this.nights; nightsAgo++) {
+      const night = getNightWindow(nightsAgo);
+      if (night.end <= now) windows.push(night);
+    }
+
+    const entityIds = [this.faceEntityId, this.lightEntityId].filter((id): id is string => !!id);
+    try {
+      const history = await fetchHistory(this.hass, entityIds, windows[windows.length - 1].start, windows[0].end);
+      if (request !== this._request) return;
+
+      const faceHistory = history[this.faceEntityId as string] || [];
+      const lightHistory = this.lightEntityId ? history[this.lightEntityId] || [] : [];
+      this._stats = windows.map((night) => computeNightStats(night, faceHistory, lightHistory));
+    } catch {
+      if (request !== this._request) return;
+      this._stats = [];
+    }
+  }
+
+  /**
+   * Get the user's language from Home Assistant
+   * @returns The language code (e.g., "en", "fr")
+   */
+  private _getLanguage(): string {
+    return this.hass?.locale?.language || this.hass?.language || 'en';
+  }
+
+  /**
+   * Format a clock time
+   * @param time - Timestamp in milliseconds, or null
+   * @returns The formatted time, or a dash if missing
+   */
+  private _formatTime(time: number | null): string {
+    if (time === null) return '–';
+    return new Date(time).toLocaleTimeString(this._getLanguage(), { hour: '2-digit', minute: '2-digit' });
+  }
+
+  /**
+   * Format a duration as hours and minutes
+   * @param duration - Duration in milliseconds, or null
+   * @returns The formatted duration, or a dash if missing
+   */
+  private _formatDuration(duration: number | null): string {
+    if (duration === null) return '–';
+    const minutes = Math.round(duration / 60000);
+    return localize('stats.duration', this._getLanguage())
+      .replace('{hours}', String(Math.floor(minutes / 60)))
+      .replace('{minutes}', String(minutes % 60).padStart(2, '0'));
+  }
+
+  /**
+   * Convert a time into an offset from its night's start
+   * Averaging offsets keeps times around midnight meaningful
+   * @param time - Timestamp in milliseconds, or null
+   * @param night - The night the time belongs to
+   * @returns The offset in milliseconds, or null
+   */
+  private _toOffset(time: number | null, night: NightWindow): number | null {
+    return time === null ? null : time - night.start;
+  }
+
+  /**
+   * Render a stacked bar of the time spent in each face
+   * @param durations - Time spent in each face, in milliseconds
+   * @returns Template result for the bar
+   */
+  private _renderFaceBar(durations: Record<string, number>): TemplateResult {
+    const total = Object.values(durations).reduce((sum, value) => sum + value, 0);
+    if (!total) return html`<div class="bar"></div>`;
+
+    const lang = this._getLanguage();
+    return html`
+      <div class="bar">
+        ${Object.entries(durations).map(
+          ([face, duration]) => html`
+            <span
+              style="width: ${(duration / total) * 100}%; background: ${getFaceColor(face)}"
+              title="${getFaceLabel(face, lang, this.faces)}: ${this._formatDuration(duration)}"
+            ></span>
+          `
+        )}
+      </div>
+    `;
+  }
+
+  protected render(): TemplateResult {
+    const lang = this._getLanguage();
+
+    if (this._stats === null) {
+      return html`<div class="message">${localize('common.loading', lang)}</div>`;
+    }
+    if (!this._stats.some((night) => Object.keys(night.faceDurations).length)) {
+      return html`<div class="message">${localize('stats.no_data', lang)}</div>`;
+    }
+
+    const stats = this._stats;
+    const referenceStart = getNightWindow(0).start;
+    const avgBedtime = average(stats.map((night) => this._toOffset(night.bedtime, night.night)));
+    const avgWake = average(stats.map((night) => this._toOffset(night.wakeTime, night.night)));
+    const avgSleep = average(stats.map((night) => night.faceDurations[SLEEP_FACE] ?? null));
+    const avgLights = average(stats.map((night) => night.lightOnCount));
+    const faces = [...new Set([...FACE_STATES, ...stats.flatMap((night) => Object.keys(night.faceDurations))])];
+    const avgDurations = Object.fromEntries(
+      faces.map((face) => [face, average(stats.map((night) => night.faceDurations[face] ?? 0)) || 0])
+    );
+
+    return html`
+      <table>
+        <thead>
+          <tr>
+            <th>${localize('stats.night', lang)}</th>
+            <th>${localize('stats.bedtime', lang)}</th>
+            <th>${localize('stats.wake_time', lang)}</th>
+            <th>${localize('stats.sleep', lang)}</th>
+            <th>${localize('stats.light_on', lang)}</th>
+            <th class="bar-cell">${localize('stats.faces', lang)}</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${stats.map(
+            (night) => html`
+              <tr>
+                <td>
+                  ${new Date(night.night.start).toLocaleDateString(lang, {
+                    weekday: 'short',
+                    day: 'numeric',
+                    month: 'short',
+                  })}
+                </td>
+                <td>${this._formatTime(night.bedtime)}</td>
+                <td>${this._formatTime(night.wakeTime)}</td>
+                <td>${this._formatDuration(night.faceDurations[SLEEP_FACE] ?? null)}</td>
+                <td>${night.lightOnCount}</td>
+                <td class="bar-cell">${this._renderFaceBar(night.faceDurations)}</td>
+              </tr>
+            `
+          )}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td>${localize('stats.average', lang)}</td>
+            <td>${this._formatTime(avgBedtime === null ? null : referenceStart + avgBedtime)}</td>
+            <td>${this._formatTime(avgWake === null ? null : referenceStart + avgWake)}</td>
+            <td>${this._formatDuration(avgSleep)}</td>
+            <td>${avgLights === null ? '–' : avgLights.toFixed(1)}</td>
+            <td class="bar-cell">${this._renderFaceBar(avgDurations)}</td>
+          </tr>
+        </tfoot>
+      </table>
+    `;
+  }
+
+  static get styles() {
+    return css`
+      :host {
+        display: block;
+        overflow-x: auto;
+      }
+
+      .message {
+        padding: 24px;
+        text-align: center;
+        color: var(--secondary-text-color);
+        font-size: 0.9em;
+      }
+
+      table {
+        width: 100%;
+        border-collapse: collapse;
+        font-size: 0.85em;
+      }
+
+      th,
+      td {
+        padding: 4px 6px;
+        text-align: start;
+        white-space: nowrap;
+      }
+
+      th {
+        color: var(--secondary-text-color);
+        font-weight: 600;
+        border-bottom: 1px solid var(--divider-color);
+      }
+
+      tfoot td {
+        font-weight: 600;
+        border-top: 1px solid var(--divider-color);
+      }
+
+      .bar-cell {
+        width: 30%;
+        min-width: 80px;
+      }
+
+      .bar {
+        display: flex;
+        height: 10px;
+        border-radius: 5px;
+        overflow: hidden;
+        background: var(--secondary-background-color);
+      }
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'remi-sleep-stats': RemiSleepStats;
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Sleep timeline for the Rémi Card
+ * Draws the face sensor's history as a colored horizontal timeline
+ */
+
+import { html, css, TemplateResult } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { HistoryElement } from './history-element';
+import { FaceConfig, UNKNOWN_FACE_ICON, getFaceColor, getFaceImage, getFaceLabel } from './face-images';
+import { getNightWindow } from './nights';
+import { localize } from './localize';
+
+/**
+ * Time period covered by the timeline
+ */
+export type TimelinePeriod = 'night' | 'hours';
+
+/**
+ * A continuous stretch of time spent in one face state
+ */
+interface TimelineSegment {
+  face: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Minimum segment width, in percent of the timeline, to draw the face icon inside it
+ */
+const ICON_MIN_WIDTH = 8;
+
+/**
+ * Horizontal timeline of a face sensor's recent history
+ */
+@customElement('remi-sleep-timeline')
+export class RemiSleepTimeline extends HistoryElement {
+  @property() public period: TimelinePeriod = 'night';
+  @property({ attribute: false }) public faces: FaceConfig[] = [];
+  @state() private _hover: TimelineSegment | null = null;
+
+  /**
+   * Describe the entity and time window the history is subscribed for
+   * @returns A key that changes whenever the subscription must be renewed
+   */
+  protected _getSubscriptionKey(): string {
+    return `${super._getSubscriptionKey()}|${this.period}`;
+  }
+
+  /**
+   * Get the number of hours of history to subscribe to
+   * @returns Hours since the start of the night, or the configured hours
+   */
+  protected _getWindowHours(): number {
+    if (this.period === 'night') {
+      return (Date.now() - getNightWindow().start) / (60 * 60 * 1000);
+    }
+    return this.hours;
+  }
+
+  /**
+   * Get the time range drawn on the timeline
+   * @returns Start and end timestamps in milliseconds
+   */
+  private _getRange(): { start: number; end: number } {
+    if (this.period === 'night') {
+      return getNightWindow();
+    }
+    const end = Date.now();
+    return { start: end - this.hours * 60 * 60 * 1000, end };
+  }
+
+  /**
+   * Convert the history into face segments within the range
+   * Consecutive identical states are merged; unavailable and unknown states leave a gap
+   * @param start - Timestamp of the left edge of the timeline
+   * @param end - Timestamp of the right edge of the timeline
+   * @returns The segments, sorted by time
+   */
+  private _getSegments(start: number, end: number): TimelineSegment[] {
+    const history = this._history || [];
+    const now = Math.min(Date.now(), end);
+
+    const segments: TimelineSegment[] = [];
+    history.forEach((entry, index) => {
+      const segment = {
+        face: entry.state,
+        start: Math.max(entry.time, start),
+        end: Math.min(history[index + 1]?.time ?? now, now),
+      };
+      if (segment.end <= segment.start || segment.face === 'unavailable' || segment.face === 'unknown') {
+        return;
+      }
+
+      const previous = segments[segments.length - 1];
+      if (previous && previous.face === segment.face && previous.end === segment.start) {
+        previous.end = segment.end;
+      } else {
+        segments.push(segment);
+      }
+    });
+    return segments;
+  }
+
+  /**
+   * Format a timestamp for axis labels and tooltips
+   * @param time - Timestamp in milliseconds
+   * @returns The formatted time
+   */
+  private _formatTime(time: number): string {
+    return new Date(time).toLocaleTimeString(this._getLanguage(), { hour: '2-digit', minute: '2-digit' });
+  }
+
+  /**
+   * Render the image of a face, or a generic icon for faces without one
+   * @param face - The face state identifier
+   * @returns Template result for the face image
+   */
+  private _renderFaceImage(face: string): TemplateResult {
+    const image = getFaceImage(face, this.faces);
+    const label = getFaceLabel(face, this._getLanguage(), this.faces);
+    return image
+      ? html`<img src="${image}" alt="${label}" />`
+      : html`<ha-icon icon="${UNKNOWN_FACE_ICON}" title="${label}"></ha-icon>`;
+  }
+
+  protected render(): TemplateResult {
+    const lang = this._getLanguage();
+
+    if (this._history === null) {
+      return html`<div class="message">${localize('common.loading', lang)}</div>`;
+    }
+
+    const { start, end } = this._getRange();
+    const segments = this._getSegments(start, end);
+    if (!segments.length) {
+      return html`<div class="message">${localize('timeline.no_data', lang)}</div>`;
+    }
+
+    const x = (time: number): number => ((time - start) / (end - start)) * 100;
+    const faces = [...new Set(segments.map((segment) => segment.face))];
+    const hover = this._hover;
+
+    return html`
+      <div class="timeline" @pointerleave=${() => (this._hover = null)}>
+        ${segments.map((segment) => {
+          const width = x(segment.end) - x(segment.start);
+          return html`
+            <div
+              class="segment ${segment.start === hover?.start ? 'hover' : ''}"
+              style="left: ${x(segment.start)}%; width: ${width}%; background: ${getFaceColor(segment.face)}"
+              @pointerenter=${() => (this._hover = segment)}
+            >
+              ${width >= ICON_MIN_WIDTH ? this._renderFaceImage(segment.face) : ''}
+            </div>
+          `;
+        })}
+        ${hover
+          ? html`
+              <div
+                class="tooltip ${x((hover.start + hover.end) / 2) > 50 ? 'left' : ''}"
+                style="left: ${x((hover.start + hover.end) / 2)}%"
+              >
+                <strong>${getFaceLabel(hover.face, lang, this.faces)}</strong>
+                <span>${this._formatTime(hover.start)} – ${this._formatTime(hover.end)}</span>
+              </div>
+            `
+          : ''}
+      </div>
+      <div class="axis">
+        <span>${this._formatTime(start)}</span>
+        <span>${this._formatTime(end)}</span>
+      </div>
+      <div class="legend">
+        ${faces.map(
+          (face) => html`
+            <span class="legend-item">
+              <span class="swatch" style="background: ${getFaceColor(face)}"></span>
+              ${getFaceLabel(face, lang, this.faces)}
+            </span>
+          `
+        )}
+      </div>
+    `;
+  }
+
+  static get styles() {
+    return css`
+      :host {
+        display: block;
+      }
+
+      .message {
+        padding: 24px;
+        text-align: center;
+        color: var(--secondary-text-color);
+        font-size: 0.9em;
+      }
+
+      /* Time runs left to right in every language, like the Home Assistant history graphs */
+      .timeline,
+      .axis {
+        direction: ltr;
+      }
+
+      .timeline {
+        position: relative;
+        height: 32px;
+        border-radius: 6px;
+        background: var(--secondary-background-color);
+      }
+
+      .segment {
+        position: absolute;
+        top: 0;
+        bottom: 0;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        overflow: hidden;
+        opacity: 0.85;
+        transition: opacity 0.15s ease;
+      }
+
+      .segment.hover {
+        opacity: 1;
+      }
+
+      .segment img {
+        width: 22px;
+        height: 22px;
+        object-fit: contain;
+      }
+
+      .segment ha-icon {
+        --mdc-icon-size: 20px;
+        color: #fff;
+      }
+
+      .tooltip {
+        position: absolute;
+        top: 100%;
+        display: flex;
+        flex-direction: column;
+        padding: 4px 8px;
+        margin-top: 4px;
+        border-radius: 4px;
+        background: var(--card-background-color);
+        border: 1px solid var(--divider-color);
+        box-shadow: 0 2px 4px rgba(0, 0, 0, 0.15);
+        font-size: 0.8em;
+        white-space: nowrap;
+        pointer-events: none;
+        z-index: 1;
+      }
+
+      .tooltip.left {
+        transform: translateX(-100%);
+      }
+
+      .tooltip span {
+        color: var(--secondary-text-color);
+      }
+
+      .axis {
+        display: flex;
+        justify-content: space-between;
+        margin-top: 4px;
+        color: var(--secondary-text-color);
+        font-size: 0.75em;
+      }
+
+      .legend {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 4px 12px;
+        margin-top: 8px;
+        font-size: 0.8em;
+      }
+
+      .legend-item {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+      }
+
+      .swatch {
+        width: 10px;
+        height: 10px;
+        border-radius: 2px;
+      }
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'remi-sleep-timeline': RemiSleepTimeline;
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Temperature graph for the Rémi Card
+ * Draws an inline SVG line graph of a sensor's history, kept up to date through the history stream
+ */
+
+import { html, svg, css, PropertyValues, TemplateResult } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { HistoryElement } from './history-element';
+import { localize } from './localize';
+import { TemperatureUnit, convertTemperature, formatTemperature } from './format';
+
+/**
+ * A numeric sample plotted on the graph
+ */
+interface GraphPoint {
+  time: number;
+  value: number;
+}
+
+/**
+ * Padding added above and below the value range, in the sensor's unit
+ */
+const VALUE_PADDING = 0.5;
+
+/**
+ * Line graph of a numeric sensor's recent history
+ */
+@customElement('remi-temperature-graph')
+export class RemiTemperatureGraph extends HistoryElement {
+  @property() public unit: TemperatureUnit = '°C';
+  @property() public sourceUnit: TemperatureUnit = '°C';
+  @property({ type: Number }) public precision = 1;
+  @property({ attribute: false }) public comfortMin: number | null = null;
+  @property({ attribute: false }) public comfortMax: number | null = null;
+  @state() private _hover: GraphPoint | null = null;
+
+  /**
+   * Lifecycle method called after the element updates
+   * Clears the hovered sample when the history is reloaded
+   * @param changedProps - Map of changed properties
+   */
+  protected updated(changedProps: PropertyValues): void {
+    super.updated(changedProps);
+    if (this._history === null && this._hover) {
+      this._hover = null;
+    }
+  }
+
+  /**
+   * Split the history into continuous runs of numeric values, in the display unit
+   * Unavailable or non-numeric states break the line
+   * @returns Lists of points, one per continuous run
+   */
+  private _getSegments(): GraphPoint[][] {
+    const segments: GraphPoint[][] = [];
+    let current: GraphPoint[] = [];
+
+    for (const entry of this._history || []) {
+      const value = parseFloat(entry.state);
+      if (isNaN(value)) {
+        if (current.length) segments.push(current);
+        current = [];
+        continue;
+      }
+      current.push({ time: entry.time, value: convertTemperature(value, this.sourceUnit, this.unit) });
+    }
+
+    // Extend the last known value up to now
+    if (current.length) {
+      current.push({ time: Date.now(), value: current[current.length - 1].value });
+      segments.push(current);
+    }
+
+    return segments;
+  }
+
+  /**
+   * Format a timestamp for axis labels and tooltips
+   * @param time - Timestamp in milliseconds
+   * @returns The formatted time, including the day for windows longer than a day
+   */
+  private _formatTime(time: number): string {
+    const options: Intl.DateTimeFormatOptions =
+      this.hours > 24
+        ? { weekday: 'short', hour: '2-digit', minute: '2-digit' }
+        : { hour: '2-digit', minute: '2-digit' };
+    return new Date(time).toLocaleTimeString(this._getLanguage(), options);
+  }
+
+  /**
+   * Track the pointer and highlight the closest sample
+   * @param e - The pointer event over the plot area
+   * @param points - All plotted samples
+   * @param start - Timestamp of the left edge of the graph
+   * @param end - Timestamp of the right edge of the graph
+   */
+  private _handlePointerMove(e: PointerEvent, points: GraphPoint[], start: number, end: number): void {
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    if (!rect.width || !points.length) return;
+
+    const time = start + ((e.clientX - rect.left) / rect.width) * (end - start);
+    this._hover = points.reduce((closest, point) =>
+      Math.abs(point.time - time) < Math.abs(closest.time - time) ? point : closest
+    );
+  }
+
+  protected render(): TemplateResult {
+    const lang = this._getLanguage();
+
+    if (this._history === null) {
+      return html`<div class="message">${localize('common.loading', lang)}</div>`;
+    }
+
+    const segments = this._getSegments();
+    const points = segments.flat();
+    if (!points.length) {
+      return html`<div class="message">${localize('temperature.no_data', lang)}</div>`;
+    }
+
+    const end = Date.now();
+    const start = end - this.hours * 60 * 60 * 1000;
+    const comfort = this.comfortMin !== null && this.comfortMax !== null;
+    const values = points.map((point) => point.value);
+    if (comfort) {
+      values.push(this.comfortMin as number, this.comfortMax as number);
+    }
+    const min = Math.floor(Math.min(...values) - VALUE_PADDING);
+    const max = Math.ceil(Math.max(...values) + VALUE_PADDING);
+
+    // Coordinates are percentages of the plot area
+    const x = (time: number): number => (Math.max(time, start) - start) / (end - start) * 100;
+    const y = (value: number): number => 100 - ((value - min) / (max - min)) * 100;
+
+    const paths = segments.map((segment) =>
+      segment.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.time)},${y(point.value)}`).join(' ')
+    );
+
+    const hover = this._hover;
+
+    return html`
+      <div class="graph">
+        <div class="y-axis">
+          <span>${formatTemperature(this.hass, max, this.unit, 0)}</span>
+          <span>${formatTemperature(this.hass, min, this.unit, 0)}</span>
+        </div>
+        <div
+          class="plot"
+          @pointermove=${(e: PointerEvent) => this._handlePointerMove(e, points, start, end)}
+          @pointerleave=${() => (this._hover = null)}
+        >
+          <svg viewBox="0 0 100 100" preserveAspectRatio="none">
+            ${svg`
+              ${comfort
+                ? svg`<rect
+                    class="comfort"
+                    x="0"
+                    y=${y(this.comfortMax as number)}
+                    width="100"
+                    height=${y(this.comfortMin as number) - y(this.comfortMax as number)}
+                  ></rect>`
+                : ''}
+              <line class="grid" x1="0" y1="50" x2="100" y2="50"></line>
+              ${paths.map((d) => svg`<path class="line" d=${d}></path>`)}
+              ${hover ? svg`<line class="cursor" x1=${x(hover.time)} y1="0" x2=${x(hover.time)} y2="100"></line>` : ''}
+            `}
+          </svg>
+          ${hover
+            ? html`
+                <div class="dot" style="left: ${x(hover.time)}%; top: ${y(hover.value)}%"></div>
+                <div class="tooltip ${x(hover.time) > 50 ? 'left' : ''}" style="left: ${x(hover.time)}%">
+                  <strong>${formatTemperature(this.hass, hover.value, this.unit, this.precision)}</strong>
+                  <span>${this._formatTime(hover.time)}</span>
+                </div>
+              `
+            : ''}
+        </div>
+        <div class="x-axis">
+          <span>${this._formatTime(start)}</span>
+          <span>${this._formatTime(end)}</span>
+        </div>
+      </div>
+    `;
+  }
+
+  static get styles() {
+    return css`
+      :host {
+        display: block;
+      }
+
+      .message {
+        padding: 24px;
+        text-align: center;
+        color: var(--secondary-text-color);
+        font-size: 0.9em;
+      }
+
+      /* Time runs left to right in every language, like the Home Assistant history graphs */
+      .graph {
+        direction: ltr;
+        display: grid;
+        grid-template-columns: auto 1fr;
+        grid-template-areas:
+          'y-axis plot'
+          '. x-axis';
+        gap: 4px 8px;
+      }
+
+      .y-axis {
+        grid-area: y-axis;
+        display: flex;
+        flex-direction: column;
+        justify-content: space-between;
+        text-align: right;
+      }
+
+      .x-axis {
+        grid-area: x-axis;
+        display: flex;
+        justify-content: space-between;
+      }
+
+      .y-axis,
+      .x-axis {
+        color: var(--secondary-text-color);
+        font-size: 0.75em;
+      }
+
+      .plot {
+        grid-area: plot;
+        position: relative;
+        height: 120px;
+        cursor: pointer;
+      }
+
+      svg {
+        display: block;
+        width: 100%;
+        height: 100%;
+        overflow: visible;
+      }
+
+      .line {
+        fill: none;
+        stroke: var(--accent-color, #ff9800);
+        stroke-width: 2;
+        stroke-linejoin: round;
+        vector-effect: non-scaling-stroke;
+      }
+
+      .comfort {
+        fill: var(--success-color, #4caf50);
+        fill-opacity: 0.1;
+      }
+
+      .grid,
+      .cursor {
+        stroke: var(--divider-color);
+        stroke-width: 1;
+        vector-effect: non-scaling-stroke;
+      }
+
+      .grid {
+        stroke-dasharray: 4 4;
+      }
+
+      .dot {
+        position: absolute;
+        width: 8px;
+        height: 8px;
+        margin: -4px 0 0 -4px;
+        border-radius: 50%;
+        background: var(--accent-color, #ff9800);
+        pointer-events: none;
+      }
+
+      .tooltip {
+        position: absolute;
+        top: 0;
+        display: flex;
+        flex-direction: column;
+        padding: 4px 8px;
+        margin-left: 8px;
+        border-radius: 4px;
+        background: var(--card-background-color);
+        border: 1px solid var(--divider-color);
+        box-shadow: 0 2px 4px rgba(0, 0, 0, 0.15);
+        font-size: 0.8em;
+        white-space: nowrap;
+        pointer-events: none;
+      }
+
+      .tooltip.left {
+        transform: translateX(-100%);
+        margin-left: -8px;
+      }
+
+      .tooltip span {
+        color: var(--secondary-text-color);
+      }
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'remi-temperature-graph': RemiTemperatureGraph;
+  }
+}